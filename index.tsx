@@ -2,7 +2,10 @@ import React, { useRef, useState, useEffect, useCallback } from "react";
 import { createRoot } from "react-dom/client";
 import * as THREE from "three";
 import { OrbitControls } from "three/addons/controls/OrbitControls.js";
+import { TransformControls } from "three/addons/controls/TransformControls.js";
+import { GLTFExporter } from "three/addons/exporters/GLTFExporter.js";
 import { GoogleGenAI } from "@google/genai";
+import { GIFEncoder, quantize, applyPalette } from "gifenc";
 import { 
   Hand, 
   Eye, 
@@ -18,31 +21,225 @@ import {
   Moon,
   Sun,
   Tag,
+  Undo2,
+  Redo2,
+  Film,
+  Play,
+  Pause,
+  Plus,
+  Video,
+  Box,
+  FileDown,
+  FileUp,
+  ClipboardPaste,
+  Star,
+  Search,
+  Ellipsis,
+  ArrowLeft,
+  ArrowRight,
+  Share2,
+  Type,
+  Bone,
+  Columns2,
+  Combine,
+  Rotate3d,
+  Axis3d,
+  FlipHorizontal2,
+  Sparkles,
+  Server,
+  Wand,
+  Send,
+  Layers,
+  ImagePlus,
+  Pin,
+  PinOff,
+  Unlink,
   Image as ImageIcon
 } from "lucide-react";
 
 // --- Types ---
 type PoseData = Record<string, {x: number, y: number, z: number}>;
+// Length multiplier per segment, keyed by joint id (limb_N_joint_M). Missing keys mean 1.
+type SegmentScales = Record<string, number>;
+// Creature layout. Each limb hangs off a pivot turned by azimuth (about Y) and tilted by
+// elevation (about Z), both in radians; its segments become limb_N_joint_1, _2, … from the root out.
+interface RigSegment {
+    length: number; // World units
+    thickness: number;
+    maxBend?: number; // Radians away from the previous segment's direction (the pivot's for the first); unlimited when missing
+}
+interface RigLimb {
+    azimuth: number;
+    elevation: number;
+    segments: RigSegment[];
+    pole?: number[]; // Creature-space direction the knees bend towards in IK; when missing they keep their current side
+}
+interface RigDefinition {
+    limbs: RigLimb[];
+}
+interface PoseSnapshot {
+    pose: PoseData;
+    scales: SegmentScales;
+    body: number[]; // Quaternion of the whole creature
+    constraints: PoseConstraint[];
+    rig: RigDefinition;
+}
+type AngleUnit = 'deg' | 'rad';
+type SymmetryMode = 'off' | 'upperLower' | 'radial' | 'leftRight';
+interface WorkspaceSettings {
+    showLabels: boolean;
+    snapEnabled: boolean;
+    orbitEnabled: boolean;
+    grabEnabled: boolean;
+    symmetry: SymmetryMode;
+    gizmoEnabled: boolean;
+    refineSketch: boolean; // Let the vision model refine the on-device sketch reading
+    sketchOverlay: boolean; // Sketch over the live view instead of a blank page
+}
+// Stored under CACHE_KEY. Version 1 was a bare PoseData object.
+interface WorkspaceCache {
+    version: number;
+    pose: PoseData;
+    scales: SegmentScales;
+    camera: { position: number[]; zoom: number; target: number[] };
+    settings: WorkspaceSettings;
+    labels: PoseLabel[];
+    rig: RigDefinition;
+    body: number[]; // Quaternion of the whole creature
+    constraints: PoseConstraint[];
+}
+interface ShareState {
+    pose: PoseData;
+    scales: SegmentScales;
+    camera: { position: number[]; zoom: number; target: number[] };
+    theme: ThemeMode;
+    showLabels: boolean;
+    rig: RigDefinition;
+    body: number[]; // Quaternion of the whole creature
+    labels: PoseLabel[];
+    constraints: PoseConstraint[];
+}
 type ThemeMode = 'light' | 'dark';
 type Stroke = {
     points: {x: number, y: number}[];
-    knee: {x: number, y: number};
+    knees: {x: number, y: number}[]; // In order from the center
     tip: {x: number, y: number};
 };
+type LabelFont = 'hand' | 'sans' | 'serif' | 'mono';
+interface PoseLabel {
+    id: string;
+    text: string;
+    limbIndex: number;
+    jointIndex: number; // Anchored at the far end of limb_N_joint_M's segment (1 = knee, last = tip)
+    font: LabelFont;
+    size: number; // px
+    color?: string; // Hex; follows the theme when unset
+}
+// Holds a limb's tip on another limb's tip, or on a fixed world point
+type PoseConstraint =
+    | { id: string; type: 'tip'; limbA: number; limbB: number }
+    | { id: string; type: 'world'; limb: number; point: number[] };
+interface LabelBox {
+    x: number; // Center, window pixels
+    y: number;
+    width: number;
+    height: number;
+}
+interface PlacedLabel extends LabelBox {
+    label: PoseLabel;
+    z: number;
+    anchorX: number;
+    anchorY: number;
+    displaced: boolean; // Moved off its preferred spot, so it gets a leader line
+}
 interface SavedPose {
     id: string;
     name: string;
     pose: PoseData;
+    scales?: SegmentScales;
     thumbnail?: string;
     timestamp: number;
     type: 'preset' | 'generated' | 'manual';
+    favorite?: boolean; // Pinned to the top of the gallery
+    tags?: string[];
+    labels?: PoseLabel[];
+    constraints?: PoseConstraint[];
+    body?: number[]; // Quaternion of the whole creature
+    rig?: RigDefinition; // Layout the pose was made on; applying the pose rebuilds to it
+}
+type GalleryFilter = 'all' | 'favorites' | SavedPose['type'];
+type EasingName = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'step';
+type PlaybackMode = 'loop' | 'pingpong' | 'once';
+interface Keyframe {
+    id: string;
+    poseId: string;
+    name: string;
+    pose: PoseData;
+    scales?: SegmentScales;
+    body?: number[]; // Quaternion of the whole creature
+    labels?: PoseLabel[]; // Shown from this keyframe until the next one
+    thumbnail?: string;
+    time: number; // Seconds from the start of the timeline
+    easing: EasingName; // Curve used towards the next keyframe
+}
+// The timeline at one moment. Parts the keyframes don't carry are left as they are.
+interface TimelineSample {
+    pose: PoseData;
+    scales?: SegmentScales;
+    body?: number[];
+    labels?: PoseLabel[];
+}
+interface ExportSettings {
+    source: 'turntable' | 'timeline';
+    format: 'webm' | 'gif';
+    fps: number;
+    duration: number; // Seconds
+    width: number; // Output width in pixels, 0 = current window size
+    transparent: boolean;
+    burnLabels: boolean;
 }
+// Background of SVG and PDF exports: the theme's page colour, plain white, or none
+type VectorBackground = 'paper' | 'white' | 'none';
 
 // --- Constants ---
 const LIMB_SEGMENT_1_LENGTH = 1.5;
 const LIMB_SEGMENT_2_LENGTH = 2.0;
+const LIMB_THICKNESS = 0.05;
 const SNAP_THRESHOLD = 0.5; // World units
+const SKETCH_HIT_RADIUS = 14; // px, for grabbing knee/tip dots and tapping strokes on the sketch canvas
 const SNAP_ANGLE = Math.PI / 12; // 15 degrees
+const FINE_ANGLE = Math.PI / 180; // 1 degree, arrow-key nudges with Shift held
+const BODY_ROTATE_SPEED = 0.01; // Radians per pixel dragged
+const AXES = ['x', 'y', 'z'] as const;
+const MAX_HISTORY = 100;
+const KEYFRAME_GAP = 1; // Seconds between appended keyframes
+
+const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+    source: 'turntable',
+    format: 'webm',
+    fps: 24,
+    duration: 4,
+    width: 720,
+    transparent: false,
+    burnLabels: true
+};
+const CLIP_SAMPLE_RATE = 30; // Frames per second when baking the timeline into a clip
+// Print page presets in millimetres (portrait); rotated to match the view's orientation
+const PAGE_SIZES: Record<string, { label: string; width: number; height: number }> = {
+    a4: { label: 'A4', width: 210, height: 297 },
+    a3: { label: 'A3', width: 297, height: 420 },
+    letter: { label: 'Letter', width: 215.9, height: 279.4 },
+    slide: { label: '16:9 Slide', width: 190.5, height: 338.7 }
+};
+const WEBM_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+const EASINGS: Record<EasingName, (t: number) => number> = {
+    linear: t => t,
+    easeIn: t => t * t * t,
+    easeOut: t => 1 - Math.pow(1 - t, 3),
+    easeInOut: t => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+    step: t => t < 1 ? 0 : 1
+};
 
 const INITIAL_POSE: PoseData = {
   "limb_0_joint_1": { "x": -0.102, "y": 0.062, "z": 1.451 },
@@ -103,19 +300,156 @@ const PRESET_POSE_2: PoseData = {
 
 const SYSTEM_PRESETS: SavedPose[] = [];
 
-const generateLabels = () => {
+// --- Rig ---
+const RIG_LIMB_COUNTS = [3, 4, 5, 6, 8];
+const RIG_MAX_LIMBS = 12;
+const RIG_MIN_SEGMENTS = 2;
+const RIG_MAX_SEGMENTS = 4;
+const DEFAULT_MAX_BEND = (Math.PI * 5) / 6;
+// Knee directions offered in the rig panel, in creature space (the front camera looks down -Z)
+const RIG_POLES: Record<string, { label: string; pole: number[] }> = {
+    up: { label: 'Up', pole: [0, 1, 0] },
+    down: { label: 'Down', pole: [0, -1, 0] },
+    front: { label: 'Front', pole: [0, 0, 1] },
+    back: { label: 'Back', pole: [0, 0, -1] },
+    left: { label: 'Left', pole: [-1, 0, 0] },
+    right: { label: 'Right', pole: [1, 0, 0] }
+};
+
+// Even counts of four or more pair an upper ring with a lower ring, like the original
+// eight-armed creature; other counts form a single upper ring.
+// Every joint past the first is limited to maxBend so dragged limbs can't fold back on themselves.
+const buildRig = (limbCount: number, lengths: number[], thickness: number, maxBend = DEFAULT_MAX_BEND): RigDefinition => {
+    const paired = limbCount >= 4 && limbCount % 2 === 0;
+    const ring = paired ? limbCount / 2 : limbCount;
+    return {
+        limbs: Array.from({ length: limbCount }, (_, i) => ({
+            azimuth: ((i % ring) * 2 * Math.PI) / ring,
+            elevation: i < ring ? Math.PI / 4 : -Math.PI / 4,
+            segments: lengths.map((length, s) => s === 0 ? { length, thickness } : { length, thickness, maxBend })
+        }))
+    };
+};
+
+const DEFAULT_RIG = buildRig(8, [LIMB_SEGMENT_1_LENGTH, LIMB_SEGMENT_2_LENGTH], LIMB_THICKNESS);
+
+// Returns null when the value is not a usable rig definition.
+const parseRig = (raw: any): RigDefinition | null => {
+    if (!raw || !Array.isArray(raw.limbs) || raw.limbs.length < 1 || raw.limbs.length > RIG_MAX_LIMBS) return null;
+    const valid = raw.limbs.every((l: any) =>
+        l && isFiniteNumber(l.azimuth) && isFiniteNumber(l.elevation) &&
+        (l.pole === undefined || (isVector3Array(l.pole) && l.pole.some((n: number) => n !== 0))) &&
+        Array.isArray(l.segments) && l.segments.length >= RIG_MIN_SEGMENTS && l.segments.length <= RIG_MAX_SEGMENTS &&
+        l.segments.every((seg: any) => seg && isFiniteNumber(seg.length) && seg.length > 0 && isFiniteNumber(seg.thickness) && seg.thickness > 0 &&
+            (seg.maxBend === undefined || (isFiniteNumber(seg.maxBend) && seg.maxBend > 0)))
+    );
+    if (!valid) return null;
+    return {
+        limbs: raw.limbs.map((l: any) => ({
+            azimuth: l.azimuth,
+            elevation: l.elevation,
+            segments: l.segments.map((seg: any) => ({ length: seg.length, thickness: seg.thickness, maxBend: seg.maxBend })),
+            pole: l.pole
+        }))
+    };
+};
+
+const sameRig = (a: RigDefinition, b: RigDefinition) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// Neutral pose for any rig: upper limbs lifted, every later joint sharing a quarter turn.
+// The eight-armed two-segment layout keeps its hand-tuned INITIAL_POSE.
+const restPose = (rig: RigDefinition): PoseData => {
+    const tuned = rig.limbs.length === 8 && rig.limbs.every(l => l.segments.length === 2);
+    const pose: PoseData = {};
+    rig.limbs.forEach((limb, i) => limb.segments.forEach((_, s) => {
+        const id = `limb_${i}_joint_${s + 1}`;
+        if (tuned && INITIAL_POSE[id]) pose[id] = INITIAL_POSE[id];
+        else if (s === 0) pose[id] = { x: 0, y: 0, z: limb.elevation > 0 ? 1.45 : 0 };
+        else pose[id] = { x: 0, y: 0, z: Number((1.57 / (limb.segments.length - 1)).toFixed(3)) };
+    }));
+    return pose;
+};
+
+// Rest length of a segment; joints the rig doesn't have fall back to the default proportions.
+const baseSegmentLength = (rig: RigDefinition, jointId: string) => {
+    const [, limb, , joint] = jointId.split('_').map(Number);
+    return rig.limbs[limb]?.segments[joint - 1]?.length ?? (joint === 1 ? LIMB_SEGMENT_1_LENGTH : LIMB_SEGMENT_2_LENGTH);
+};
+
+const LABEL_FONTS: Record<LabelFont, { name: string; css: string }> = {
+    hand: { name: 'Hand', css: "'Reenie Beanie', cursive" },
+    sans: { name: 'Sans', css: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif' },
+    serif: { name: 'Serif', css: 'Georgia, "Times New Roman", serif' },
+    mono: { name: 'Mono', css: 'ui-monospace, Menlo, Consolas, monospace' }
+};
+const DEFAULT_LABEL_SIZE = 24;
+const LABEL_OFFSET = 50; // px from the anchor, away from the screen center
+const LABEL_GAP = 4; // px kept free between label boxes
+const LABEL_MAX_LEADER = 160; // px; relaxed labels farther from their anchor are hidden
+const LABEL_RELAX_ITERATIONS = 30;
+// Tried in order: the preferred spot first, then rotated and farther out
+const LABEL_CANDIDATES = [0, 1, -1, 2, -2, 3, -3, 4, -4, 6]
+    .flatMap(step => [LABEL_OFFSET, LABEL_OFFSET * 1.6].map(distance => ({ angle: (step * Math.PI) / 6, distance })))
+    .sort((a, b) => a.distance - b.distance);
+
+const generateLabels = (): PoseLabel[] => {
     // Top Right (Limb 0) and Bottom Left (Limb 6) based on the sparse sketch
     return [
         { text: "develop", limbIndex: 0, jointIndex: 1 }, // Knee
         { text: "deploy", limbIndex: 0, jointIndex: 2 },  // Tip
         { text: "define", limbIndex: 6, jointIndex: 1 },  // Knee
         { text: "discover", limbIndex: 6, jointIndex: 2 } // Tip
-    ];
+    ].map(l => ({ ...l, id: `default_${l.limbIndex}_${l.jointIndex}`, font: 'hand', size: DEFAULT_LABEL_SIZE }));
+};
+const DEFAULT_LABELS = generateLabels();
+
+const labelSizeCache = new Map<string, { width: number; height: number }>();
+let measureContext: CanvasRenderingContext2D | null = null;
+
+// Rendered text size; webfonts load late, so cached sizes are dropped once they arrive.
+const measureLabel = (label: PoseLabel) => {
+    const font = `${label.size}px ${LABEL_FONTS[label.font].css}`;
+    const key = `${font}|${label.text}`;
+    const cached = labelSizeCache.get(key);
+    if (cached) return cached;
+    measureContext = measureContext ?? document.createElement('canvas').getContext('2d');
+    if (!measureContext) return { width: label.text.length * label.size * 0.5, height: label.size };
+    measureContext.font = font;
+    const size = { width: Math.ceil(measureContext.measureText(label.text).width), height: label.size };
+    labelSizeCache.set(key, size);
+    return size;
+};
+document.fonts?.addEventListener('loadingdone', () => labelSizeCache.clear());
+
+const boxesOverlap = (a: LabelBox, b: LabelBox) =>
+    Math.abs(a.x - b.x) < (a.width + b.width) / 2 + LABEL_GAP &&
+    Math.abs(a.y - b.y) < (a.height + b.height) / 2 + LABEL_GAP;
+
+// Slightly bowed curve from the edge of the label box to just short of its anchor.
+// The bow direction is derived from the label id so lines don't flicker between frames.
+const leaderPath = (p: PlacedLabel) => {
+    const dx = p.anchorX - p.x;
+    const dy = p.anchorY - p.y;
+    const len = Math.hypot(dx, dy) || 1;
+    const t = Math.min(dx ? (p.width / 2 + 3) / Math.abs(dx) : Infinity, dy ? (p.height / 2 + 3) / Math.abs(dy) : Infinity);
+    const sx = p.x + dx * Math.min(t, 1);
+    const sy = p.y + dy * Math.min(t, 1);
+    const ex = p.anchorX - (dx / len) * 4;
+    const ey = p.anchorY - (dy / len) * 4;
+    const bow = ([...p.label.id].reduce((sum, c) => sum + c.charCodeAt(0), 0) % 2 ? 1 : -1) * len * 0.12;
+    const qx = (sx + ex) / 2 - (dy / len) * bow;
+    const qy = (sy + ey) / 2 + (dx / len) * bow;
+    return `M${sx.toFixed(1)} ${sy.toFixed(1)} Q${qx.toFixed(1)} ${qy.toFixed(1)} ${ex.toFixed(1)} ${ey.toFixed(1)}`;
 };
-const INDIVIDUAL_LABELS = generateLabels();
 
 const CACHE_KEY = "mento_pose_cache";
+const CACHE_VERSION = 2;
+const CACHE_SAVE_DELAY = 500; // ms
+const SHARE_HASH_PREFIX = "#share=";
+const SHARE_FORMAT_VERSION = 2;
 const SAVED_POSES_KEY = "mento_saved_poses_v1";
+const POSE_LIBRARY_FORMAT = "mento-pose-library";
+const POSE_LIBRARY_VERSION = 1;
 
 const createWobblyGeometry = (baseGeo: THREE.BufferGeometry, magnitude: number = 0.015) => {
   const geo = baseGeo.clone();
@@ -133,6 +467,203 @@ const createWobblyGeometry = (baseGeo: THREE.BufferGeometry, magnitude: number =
   return geo;
 };
 
+// --- Inverse Kinematics ---
+const IK_ITERATIONS = 16;
+const IK_TOLERANCE = 1e-3; // World units
+
+// Turns dir towards axis until it is at most maxAngle away from it.
+const clampDirection = (dir: THREE.Vector3, axis: THREE.Vector3, maxAngle: number) => {
+    if (dir.angleTo(axis) <= maxAngle) return dir;
+    const hinge = new THREE.Vector3().crossVectors(axis, dir);
+    if (hinge.lengthSq() < 1e-12) hinge.set(1, 0, 0).cross(axis);
+    if (hinge.lengthSq() < 1e-12) hinge.set(0, 0, 1);
+    return axis.clone().applyAxisAngle(hinge.normalize(), maxAngle);
+};
+
+// Rotates the inner joint p about the line through its neighbours a and b until it sits on the
+// pole's side. Distances to both neighbours are unchanged.
+const rotateTowardsPole = (a: THREE.Vector3, p: THREE.Vector3, b: THREE.Vector3, pole: THREE.Vector3) => {
+    const line = new THREE.Vector3().subVectors(b, a);
+    if (line.lengthSq() < 1e-12) return;
+    line.normalize();
+    const from = new THREE.Vector3().subVectors(p, a).projectOnPlane(line);
+    const to = new THREE.Vector3().subVectors(pole, a).projectOnPlane(line);
+    if (to.lengthSq() < 1e-12) return;
+    // A straight joint has no side yet; nudge it off the line so it can bend
+    if (from.lengthSq() < 1e-8) {
+        p.addScaledVector(to.normalize(), 0.01);
+        return;
+    }
+    const angle = from.angleTo(to) * Math.sign(new THREE.Vector3().crossVectors(from, to).dot(line) || 1);
+    p.sub(a).applyAxisAngle(line, angle).add(a);
+};
+
+// FABRIK over world-space joint positions, root first and tip last. Segment lengths come from the
+// input points, so stretched segments keep their length. limits[i] bounds the angle between segment i
+// and the one before it (rootAxis for the first); a pole pulls every bend towards its side.
+const solveFabrik = (points: THREE.Vector3[], target: THREE.Vector3, rootAxis: THREE.Vector3, limits: number[], pole: THREE.Vector3 | null) => {
+    const lengths = points.slice(1).map((p, i) => p.distanceTo(points[i]));
+    const result = points.map(p => p.clone());
+    const n = result.length - 1;
+    for (let iter = 0; iter < IK_ITERATIONS; iter++) {
+        // Backward: pin the tip to the target
+        result[n].copy(target);
+        for (let i = n - 1; i >= 0; i--) {
+            const dir = new THREE.Vector3().subVectors(result[i], result[i + 1]).normalize();
+            result[i].copy(result[i + 1]).addScaledVector(dir, lengths[i]);
+        }
+        if (pole) for (let i = 1; i < n; i++) rotateTowardsPole(result[i - 1], result[i], result[i + 1], pole);
+        // Forward: pin the root back, keeping every bend within its limit
+        result[0].copy(points[0]);
+        const axis = rootAxis.clone();
+        for (let i = 0; i < n; i++) {
+            const dir = clampDirection(new THREE.Vector3().subVectors(result[i + 1], result[i]).normalize(), axis, limits[i]);
+            result[i + 1].copy(result[i]).addScaledVector(dir, lengths[i]);
+            axis.copy(dir);
+        }
+        if (result[n].distanceTo(target) < IK_TOLERANCE) break;
+    }
+    return result;
+};
+
+// --- Symmetry ---
+const SYMMETRY_MODES: Record<SymmetryMode, string> = {
+    off: 'Symmetry off',
+    upperLower: 'Mirror upper/lower',
+    radial: 'Radial symmetry',
+    leftRight: 'Mirror left/right'
+};
+
+const sameAngle = (a: number, b: number) =>
+    Math.abs(THREE.MathUtils.euclideanModulo(a - b + Math.PI, Math.PI * 2) - Math.PI) < 1e-3;
+
+// Reflection through the plane with the given unit normal
+const reflectionMatrix = ({ x, y, z }: THREE.Vector3) => new THREE.Matrix3().set(
+    1 - 2 * x * x, -2 * x * y, -2 * x * z,
+    -2 * x * y, 1 - 2 * y * y, -2 * y * z,
+    -2 * x * z, -2 * y * z, 1 - 2 * z * z
+);
+
+// Other limbs that follow limbIndex under a symmetry mode, each with the creature-space rotation
+// or mirror that carries the source limb onto it. Upper and lower limbs of the same azimuth are
+// mirror images across their shared vertical plane; left/right mirrors across the X = 0 plane.
+const getSymmetryCounterparts = (rig: RigDefinition, limbIndex: number, mode: SymmetryMode) => {
+    const src = rig.limbs[limbIndex];
+    const result: { limbIndex: number; transform: THREE.Matrix3 }[] = [];
+    if (!src || mode === 'off') return result;
+    rig.limbs.forEach((limb, j) => {
+        if (j === limbIndex) return;
+        if (mode === 'radial' && sameAngle(limb.elevation, src.elevation)) {
+            result.push({ limbIndex: j, transform: new THREE.Matrix3().setFromMatrix4(new THREE.Matrix4().makeRotationY(limb.azimuth - src.azimuth)) });
+        } else if (mode === 'upperLower' && sameAngle(limb.azimuth, src.azimuth) && sameAngle(limb.elevation, -src.elevation)) {
+            result.push({ limbIndex: j, transform: reflectionMatrix(new THREE.Vector3(Math.cos(src.azimuth), 0, -Math.sin(src.azimuth))) });
+        } else if (mode === 'leftRight' && sameAngle(limb.elevation, src.elevation) && sameAngle(limb.azimuth, Math.PI - src.azimuth)) {
+            result.push({ limbIndex: j, transform: reflectionMatrix(new THREE.Vector3(1, 0, 0)) });
+        }
+    });
+    return result;
+};
+
+// Carries a creature-space joint frame through a rotation or mirror. A mirror flips handedness,
+// so the frame is rebuilt from its mapped segment (Y) and side (X) axes.
+const transformFrame = (q: THREE.Quaternion, transform: THREE.Matrix3) => {
+    const y = new THREE.Vector3(0, 1, 0).applyQuaternion(q).applyMatrix3(transform);
+    const x = new THREE.Vector3(1, 0, 0).applyQuaternion(q).applyMatrix3(transform);
+    const z = new THREE.Vector3().crossVectors(x, y);
+    return new THREE.Quaternion().setFromRotationMatrix(new THREE.Matrix4().makeBasis(x, y, z));
+};
+
+// Spherical interpolation between two poses, joint by joint. Avoids the gimbal flips of lerping Euler angles.
+const slerpPoses = (from: PoseData, to: PoseData, t: number): PoseData => {
+    const result: PoseData = {};
+    const qa = new THREE.Quaternion();
+    const qb = new THREE.Quaternion();
+    const euler = new THREE.Euler();
+    const ids = new Set([...Object.keys(from), ...Object.keys(to)]);
+    ids.forEach(id => {
+        const a = from[id] ?? to[id];
+        const b = to[id] ?? from[id];
+        qa.setFromEuler(euler.set(a.x, a.y, a.z));
+        qb.setFromEuler(euler.set(b.x, b.y, b.z));
+        qa.slerp(qb, t);
+        euler.setFromQuaternion(qa);
+        result[id] = { x: euler.x, y: euler.y, z: euler.z };
+    });
+    return result;
+};
+
+// Segments missing on one side are at their rest length (1).
+const lerpScales = (from: SegmentScales = {}, to: SegmentScales = {}, t: number): SegmentScales => {
+    const result: SegmentScales = {};
+    new Set([...Object.keys(from), ...Object.keys(to)]).forEach(id => {
+        const a = from[id] ?? 1;
+        const b = to[id] ?? 1;
+        result[id] = a + (b - a) * t;
+    });
+    return result;
+};
+
+const keyframeSample = (k: Keyframe): TimelineSample => ({ pose: k.pose, scales: k.scales, body: k.body, labels: k.labels });
+
+// Keyframes must be sorted by time. Rotations and the body slerp, scales lerp and labels switch
+// when the next keyframe is reached.
+const sampleTimeline = (keyframes: Keyframe[], time: number): TimelineSample | null => {
+    if (keyframes.length === 0) return null;
+    if (time <= keyframes[0].time) return keyframeSample(keyframes[0]);
+    for (let i = 0; i < keyframes.length - 1; i++) {
+        const a = keyframes[i];
+        const b = keyframes[i + 1];
+        if (time <= b.time) {
+            const span = b.time - a.time;
+            const local = span > 0 ? (time - a.time) / span : 1;
+            const t = EASINGS[a.easing](local);
+            return {
+                pose: slerpPoses(a.pose, b.pose, t),
+                scales: a.scales || b.scales ? lerpScales(a.scales, b.scales, t) : undefined,
+                body: a.body && b.body
+                    ? new THREE.Quaternion().fromArray(a.body).slerp(new THREE.Quaternion().fromArray(b.body), t).toArray()
+                    : a.body ?? b.body,
+                labels: local < 1 ? a.labels ?? b.labels : b.labels ?? a.labels
+            };
+        }
+    }
+    return keyframeSample(keyframes[keyframes.length - 1]);
+};
+
+// One quaternion track per joint, targeting the limb_N_joint_M groups by name.
+const createPoseClip = (name: string, frames: { time: number; pose: PoseData }[]) => {
+    const q = new THREE.Quaternion();
+    const euler = new THREE.Euler();
+    const tracks = Object.keys(frames[0].pose).map(id => {
+        const values: number[] = [];
+        frames.forEach(frame => {
+            const r = frame.pose[id] ?? frames[0].pose[id];
+            q.setFromEuler(euler.set(r.x, r.y, r.z));
+            values.push(q.x, q.y, q.z, q.w);
+        });
+        return new THREE.QuaternionKeyframeTrack(`${id}.quaternion`, frames.map(f => f.time), values);
+    });
+    return new THREE.AnimationClip(name, -1, tracks);
+};
+
+const escapeXml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const nextFrame = () => new Promise<void>(resolve => requestAnimationFrame(() => resolve()));
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.download = filename;
+    link.href = url;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
 const stripMarkdown = (text: string) => {
     let clean = text.trim();
     if (clean.startsWith("```json")) clean = clean.substring(7);
@@ -141,6 +672,835 @@ const stripMarkdown = (text: string) => {
     return clean.trim();
 };
 
+// --- Local Sketch Mapping ---
+// Sketch points per limb, normalized to the canvas (0-1): the knees in order from the center, then the tip.
+// The vision model answers in the same shape.
+type SketchLimb = { id: number; points: number[][] };
+
+// Screen angle (radians, y up) of each limb's first segment in the rest pose. view turns creature
+// space into camera space; the default is the front camera. Tips of bent limbs crowd together;
+// their first segments fan out.
+const restLimbAngles = (rig: RigDefinition, view = new THREE.Quaternion()) => {
+    const pose = restPose(rig);
+    return rig.limbs.map((limb, i) => {
+        const r = pose[`limb_${i}_joint_1`];
+        const q = new THREE.Quaternion().setFromEuler(new THREE.Euler(0, limb.azimuth, limb.elevation))
+            .multiply(new THREE.Quaternion().setFromEuler(new THREE.Euler(r.x, r.y, r.z)));
+        const dir = new THREE.Vector3(0, 1, 0).applyQuaternion(q).applyQuaternion(view);
+        return Math.atan2(dir.y, dir.x);
+    });
+};
+
+// Knees along a freshly drawn stroke. A two-segment limb bends at the point farthest from the
+// start–tip line; longer limbs split the stroke by arc length in proportion to their segment lengths.
+const detectKnees = (points: Stroke['points'], lengths: number[]) => {
+    const start = points[0];
+    const tip = points[points.length - 1];
+    if (lengths.length === 2) {
+        let maxDist = 0;
+        let knee = points[Math.floor(points.length / 2)];
+        
+        // Line equation Ax + By + C = 0
+        const A = start.y - tip.y;
+        const B = tip.x - start.x;
+        const C = start.x * tip.y - tip.x * start.y;
+        const denom = Math.sqrt(A*A + B*B);
+
+        if (denom > 1) { // Avoid divide by zero for super short lines
+            points.forEach(p => {
+                const d = Math.abs(A*p.x + B*p.y + C) / denom;
+                if (d > maxDist) {
+                    maxDist = d;
+                    knee = p;
+                }
+            });
+        }
+        return [knee];
+    }
+    const along = [0];
+    points.forEach((p, i) => { if (i) along.push(along[i - 1] + Math.hypot(p.x - points[i - 1].x, p.y - points[i - 1].y)); });
+    const total = along[along.length - 1];
+    const limbLength = lengths.reduce((a, b) => a + b, 0);
+    let reach = 0;
+    return lengths.slice(0, -1).map(length => {
+        reach += (length / limbLength) * total;
+        return points[Math.max(0, along.findIndex(d => d >= reach))];
+    });
+};
+
+// Knees and tip for a chain of the given segment lengths along the polyline start → points,
+// split by arc length. Lets a sketched limb drive a chain with a different segment count.
+const resamplePolyline = (start: THREE.Vector3, points: THREE.Vector3[], lengths: number[]) => {
+    const path = [start, ...points];
+    const along = [0];
+    path.forEach((p, i) => { if (i) along.push(along[i - 1] + path[i - 1].distanceTo(p)); });
+    const total = along[along.length - 1];
+    const limbLength = lengths.reduce((a, b) => a + b, 0);
+    let reach = 0;
+    return lengths.map(length => {
+        reach += (length / limbLength) * total;
+        const i = Math.max(1, along.findIndex(d => d >= reach - 1e-9));
+        const span = along[i] - along[i - 1];
+        return path[i - 1].clone().lerp(path[i], span > 0 ? (reach - along[i - 1]) / span : 1);
+    });
+};
+
+// Pixel distance from p to the nearest point of a polyline
+const distanceToPolyline = (p: {x: number, y: number}, points: {x: number, y: number}[]) => {
+    let min = Infinity;
+    points.forEach((b, i) => {
+        const a = points[Math.max(0, i - 1)];
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const t = dx || dy ? Math.min(1, Math.max(0, ((p.x - a.x) * dx + (p.y - a.y) * dy) / (dx * dx + dy * dy))) : 0;
+        min = Math.min(min, Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy)));
+    });
+    return min;
+};
+
+// Limb each stroke drives, by stroke index: the free limb whose rest direction on screen is
+// closest to the stroke's, closest pairs first. Strokes beyond the limb count drive none.
+const matchStrokesToLimbs = (strokes: Stroke[], rig: RigDefinition, view?: THREE.Quaternion) => {
+    const angles = restLimbAngles(rig, view);
+    const pairs = strokes.flatMap((stroke, s) => {
+        const start = stroke.points[0];
+        const angle = Math.atan2(start.y - stroke.tip.y, stroke.tip.x - start.x);
+        return angles.map((a, limb) => ({ s, limb, diff: Math.abs(Math.atan2(Math.sin(angle - a), Math.cos(angle - a))) }));
+    }).sort((a, b) => a.diff - b.diff);
+    const matches = new Map<number, number>();
+    const usedLimbs = new Set<number>();
+    pairs.forEach(({ s, limb }) => {
+        if (matches.has(s) || usedLimbs.has(limb)) return;
+        matches.set(s, limb);
+        usedLimbs.add(limb);
+    });
+    return matches;
+};
+
+// Knees of the stroke for the limb it drives. Knees fitted for a limb with another segment
+// count, or not fitted yet, are fitted again.
+const strokeKnees = (stroke: Stroke, limb: RigLimb) => stroke.knees.length === limb.segments.length - 1
+    ? stroke.knees
+    : detectKnees(stroke.points, limb.segments.map(seg => seg.length));
+
+// Deterministic, on-device reading of the sketch
+const sketchToLimbs = (strokes: Stroke[], width: number, height: number, rig: RigDefinition, view?: THREE.Quaternion): SketchLimb[] => {
+    const limbs: SketchLimb[] = [];
+    matchStrokesToLimbs(strokes, rig, view).forEach((limb, s) => {
+        limbs.push({ id: limb, points: [...strokeKnees(strokes[s], rig.limbs[limb]), strokes[s].tip].map(p => [p.x / width, p.y / height]) });
+    });
+    return limbs.sort((a, b) => a.id - b.id);
+};
+
+// --- Vision Backends ---
+// Magic Pose sends the sketch, or a text description, to one of these and gets the model's JSON
+// answer back as text. Self-hosted endpoints and the local stub (npm run vision-stub) receive a
+// JSON POST of { model, mimeType, image, prompt, limbCount, segmentCounts, candidates } and answer
+// with the limbs JSON, or the poses JSON when candidates is set.
+type VisionProvider = 'gemini' | 'openai' | 'selfHosted' | 'stub';
+interface VisionConfig {
+    provider: VisionProvider;
+    model: string;
+    endpoint: string; // Base URL for OpenAI-compatible APIs, full URL otherwise; unused by Gemini
+    apiKey: string; // Only what the user typed; never the build-time key
+}
+interface VisionRequest {
+    image?: string; // Base64 JPEG without the data: prefix; absent for text prompts
+    prompt: string;
+    limbCount: number;
+    segmentCounts: number[]; // Per limb, by id
+    candidates?: number; // Poses wanted for a text prompt
+}
+
+const VISION_CONFIG_KEY = "mento_vision_backend_v1";
+const VISION_PROVIDERS: Record<VisionProvider, { name: string; model: string; endpoint: string; needsKey: boolean }> = {
+    gemini: { name: 'Gemini', model: 'gemini-2.5-flash', endpoint: '', needsKey: true },
+    openai: { name: 'OpenAI-compatible', model: 'gpt-4o-mini', endpoint: 'https://api.openai.com/v1', needsKey: true },
+    selfHosted: { name: 'Self-hosted', model: '', endpoint: 'http://localhost:8000/analyze', needsKey: false },
+    stub: { name: 'Local stub', model: '', endpoint: 'http://localhost:8787', needsKey: false }
+};
+
+// Falls back to Gemini, which uses the key baked in at build time until the user enters one
+const readVisionConfig = (): VisionConfig => {
+    const fallback: VisionConfig = { provider: 'gemini', model: VISION_PROVIDERS.gemini.model, endpoint: '', apiKey: '' };
+    try {
+        const raw = JSON.parse(localStorage.getItem(VISION_CONFIG_KEY) || 'null');
+        if (!raw || !(raw.provider in VISION_PROVIDERS)) return fallback;
+        const text = (v: unknown) => typeof v === 'string' ? v : '';
+        // Earlier builds stored a copy of the build-time key as if it had been typed
+        const apiKey = text(raw.apiKey) === process.env.API_KEY ? '' : text(raw.apiKey);
+        return { provider: raw.provider, model: text(raw.model), endpoint: text(raw.endpoint), apiKey };
+    } catch (e) {
+        return fallback;
+    }
+};
+
+// The key a request carries. The build-time key only ever goes to Gemini, and the stub gets none.
+const visionApiKey = (config: VisionConfig) => {
+    if (config.provider === 'stub') return '';
+    return config.apiKey || (config.provider === 'gemini' ? process.env.API_KEY ?? '' : '');
+};
+
+const isVisionConfigured = (config: VisionConfig) =>
+    (!VISION_PROVIDERS[config.provider].needsKey || !!visionApiKey(config)) && (config.provider === 'gemini' || !!config.endpoint);
+
+const postJson = async (url: string, body: unknown, apiKey: string, signal: AbortSignal) => {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+        body: JSON.stringify(body),
+        signal
+    });
+    // The status decides whether withRetries tries again
+    if (!response.ok) throw Object.assign(new Error(`${url} answered ${response.status} ${response.statusText}`), { status: response.status });
+    return response;
+};
+
+const postSketch = async (config: VisionConfig, request: VisionRequest, signal: AbortSignal) => {
+    const response = await postJson(config.endpoint, { model: config.model || undefined, mimeType: 'image/jpeg', ...request }, visionApiKey(config), signal);
+    return response.text();
+};
+
+const VISION_BACKENDS: Record<VisionProvider, (config: VisionConfig, request: VisionRequest, signal: AbortSignal) => Promise<string>> = {
+    gemini: async (config, { image, prompt }, signal) => {
+        const ai = new GoogleGenAI({ apiKey: visionApiKey(config) });
+        const response = await ai.models.generateContent({
+            model: config.model || VISION_PROVIDERS.gemini.model,
+            contents: { parts: [...(image ? [{ inlineData: { mimeType: "image/jpeg", data: image } }] : []), { text: prompt }] },
+            config: { responseMimeType: "application/json", abortSignal: signal }
+        });
+        return response.text || "{}";
+    },
+    openai: async (config, { image, prompt }, signal) => {
+        const response = await postJson(`${config.endpoint.replace(/\/+$/, '')}/chat/completions`, {
+            model: config.model || VISION_PROVIDERS.openai.model,
+            response_format: { type: 'json_object' },
+            messages: [{
+                role: 'user',
+                content: [
+                    { type: 'text', text: prompt },
+                    ...(image ? [{ type: 'image_url', image_url: { url: `data:image/jpeg;base64,${image}` } }] : [])
+                ]
+            }]
+        }, visionApiKey(config), signal);
+        const data = await response.json();
+        return data?.choices?.[0]?.message?.content ?? "{}";
+    },
+    selfHosted: postSketch,
+    stub: postSketch
+};
+
+const MAGIC_POSE_TIMEOUT = 20000; // ms per attempt
+const MAGIC_POSE_RETRIES = 2; // Attempts after the first
+const MAGIC_POSE_BACKOFF = 1000; // ms before the first retry, doubling after each
+const MAGIC_POSE_CANDIDATES = 3; // Poses offered for a text prompt
+
+const parseModelJson = (text: string) => {
+    try {
+        return JSON.parse(stripMarkdown(text));
+    } catch (e) {
+        throw new Error("The model's answer is not valid JSON");
+    }
+};
+
+// Segment counts for a prompt, phrased briefly when every limb has the same number
+const describeSegmentCounts = (segmentCounts: number[]) => segmentCounts.every(n => n === segmentCounts[0])
+    ? `each with ${segmentCounts[0]} segments`
+    : `with these segment counts by id: ${segmentCounts.map((n, id) => `${id}: ${n}`).join(', ')}`;
+
+// Checks the model's answer against the rig, whose limb i has segmentCounts[i] segments. Entries
+// that are malformed, out of the 0-1 range, for a limb the rig doesn't have, with the wrong number
+// of points or repeating an id are dropped and reported. An answer with nothing usable is an error.
+const checkSketchLimbs = (raw: unknown, segmentCounts: number[]): { limbs: SketchLimb[]; problems: string[] } => {
+    const list = raw && typeof raw === 'object' ? (raw as { limbs?: unknown }).limbs : undefined;
+    if (!Array.isArray(list)) throw new Error('The model\'s answer has no "limbs" list');
+    const inRange = (pt: unknown): pt is number[] => Array.isArray(pt) && pt.length === 2 && pt.every(v => isFiniteNumber(v) && v >= 0 && v <= 1);
+    const limbs: SketchLimb[] = [];
+    const problems: string[] = [];
+    list.forEach((entry: unknown, i) => {
+        const l = (entry && typeof entry === 'object' ? entry : {}) as { id?: unknown; points?: unknown; knee?: unknown; tip?: unknown };
+        const id = l.id;
+        // Older answers name just the knee and tip of a two-segment limb
+        const points: unknown[] = Array.isArray(l.points) ? l.points : [l.knee, l.tip];
+        if (typeof id !== 'number' || !Number.isInteger(id) || id < 0 || id >= segmentCounts.length) problems.push(`limbs[${i}] has no valid id`);
+        else if (limbs.some(other => other.id === id)) problems.push(`limb ${id} appears twice`);
+        else if (points.length !== segmentCounts[id]) problems.push(`limb ${id} needs ${segmentCounts[id]} points`);
+        else if (!points.every(inRange)) problems.push(`limb ${id} has points outside 0-1`);
+        else limbs.push({ id, points });
+    });
+    if (!limbs.length) throw new Error(`No usable limbs in the model's answer${problems.length ? ` (${problems.slice(0, 3).join('; ')})` : ''}`);
+    return { limbs, problems };
+};
+
+const parseSketchLimbs = (text: string, segmentCounts: number[]) => checkSketchLimbs(parseModelJson(text), segmentCounts);
+
+// Text prompts are answered with { "poses": [{ "name", "limbs" }] }. Each pose is checked like a
+// sketch answer; poses without usable limbs are dropped and reported.
+const parsePoseCandidates = (text: string, segmentCounts: number[]) => {
+    const raw: unknown = parseModelJson(text);
+    const list = raw && typeof raw === 'object' ? (raw as { poses?: unknown }).poses : undefined;
+    if (!Array.isArray(list)) throw new Error('The model\'s answer has no "poses" list');
+    const poses: { name: string; limbs: SketchLimb[] }[] = [];
+    const problems: string[] = [];
+    list.slice(0, MAGIC_POSE_CANDIDATES).forEach((pose: unknown, i) => {
+        try {
+            const checked = checkSketchLimbs(pose, segmentCounts);
+            const name = (pose as { name?: unknown }).name;
+            poses.push({ name: typeof name === 'string' && name.trim() ? name.trim().slice(0, 40) : `Option ${i + 1}`, limbs: checked.limbs });
+            problems.push(...checked.problems.map(p => `poses[${i}]: ${p}`));
+        } catch (e) {
+            problems.push(`poses[${i}]: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    });
+    if (!poses.length) throw new Error(`No usable poses in the model's answer${problems.length ? ` (${problems.slice(0, 2).join('; ')})` : ''}`);
+    return { poses, problems };
+};
+
+// Worth another attempt: network failures (fetch rejects with a TypeError), rate limits and
+// server errors. A rejected key or an unusable answer would fail the same way again.
+const isTransientError = (err: unknown) => {
+    if (err instanceof TypeError) return true;
+    const status = err && typeof err === 'object' ? (err as { status?: unknown }).status : undefined;
+    return isFiniteNumber(status) && (status === 429 || status >= 500);
+};
+
+// Runs request until it succeeds, giving each attempt MAGIC_POSE_TIMEOUT and backing off
+// between attempts. Only timeouts and transient errors are retried. Aborting signal cancels
+// the attempt in flight and any retries.
+const withRetries = async <T,>(request: (signal: AbortSignal) => Promise<T>, signal: AbortSignal): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        const attemptController = new AbortController();
+        const cancel = () => attemptController.abort(signal.reason);
+        signal.addEventListener('abort', cancel);
+        const timer = setTimeout(() => attemptController.abort(new Error(`No answer within ${MAGIC_POSE_TIMEOUT / 1000} seconds`)), MAGIC_POSE_TIMEOUT);
+        // Settles on abort even if the backend ignores its signal
+        const aborted = new Promise<never>((_, reject) => attemptController.signal.addEventListener('abort', () => reject(attemptController.signal.reason)));
+        try {
+            return await Promise.race([request(attemptController.signal), aborted]);
+        } catch (err) {
+            const timedOut = attemptController.signal.aborted && !signal.aborted;
+            if (signal.aborted || attempt >= MAGIC_POSE_RETRIES || !(timedOut || isTransientError(err))) {
+                throw attemptController.signal.aborted ? attemptController.signal.reason : err;
+            }
+        } finally {
+            clearTimeout(timer);
+            signal.removeEventListener('abort', cancel);
+        }
+        await wait(MAGIC_POSE_BACKOFF * 2 ** attempt);
+        if (signal.aborted) throw signal.reason;
+    }
+};
+
+// --- Pose Library File Format ---
+// A pose library is a JSON document that can be shared between installs:
+//
+// {
+//   "format": "mento-pose-library",
+//   "version": 1,
+//   "exportedAt": "2025-01-01T12:00:00.000Z",
+//   "poses": [{
+//     "id": "…",
+//     "name": "Warm-up",
+//     "type": "preset" | "generated" | "manual",
+//     "timestamp": 1735732800000,
+//     "favorite": true,                                                 // optional
+//     "tags": ["workshop", "diverge"],                                  // optional
+//     "labels": [{ "text": "define", "limbIndex": 6, "jointIndex": 1,  // optional
+//                  "font": "hand", "size": 24, "color": "#FF3B30" }],
+//     "constraints": [{ "type": "tip", "limbA": 0, "limbB": 3 },       // optional
+//                     { "type": "world", "limb": 5, "point": [0, -2, 0] }],
+//     "body": [0, 0, 0, 1],                                             // optional, quaternion
+//     "rig": { "limbs": [{ "azimuth": 0, "elevation": 0.785,           // optional, the layout the
+//              "segments": [{ "length": 1.5, "thickness": 0.08 }, … ] }, … ] },  // pose was made on
+//     "pose": { "limb_0_joint_1": { "x": 0, "y": 0, "z": 1.57 }, … },  // Euler XYZ, radians
+//     "lengths": { "limb_0_joint_1": 1.5, … },                          // optional, world units
+//     "thumbnail": "data:image/png;base64,…"                             // optional
+//   }]
+// }
+//
+// Version 0 is a bare array of gallery entries, as stored under SAVED_POSES_KEY.
+// Bump POSE_LIBRARY_VERSION and extend migratePoseLibrary when the shape changes.
+type LibraryImportMode = 'merge' | 'replace';
+type DuplicateStrategy = 'skip' | 'overwrite' | 'keepBoth';
+
+const POSE_TYPES: SavedPose['type'][] = ['preset', 'generated', 'manual'];
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+// Returns null when the value is not a usable label list.
+const parseLabels = (raw: unknown): PoseLabel[] | null => {
+    if (!Array.isArray(raw)) return null;
+    const labels: PoseLabel[] = [];
+    for (const l of raw) {
+        if (!l || typeof l.text !== 'string' || !Number.isInteger(l.limbIndex) || !Number.isInteger(l.jointIndex)) return null;
+        labels.push({
+            id: typeof l.id === 'string' && l.id ? l.id : crypto.randomUUID(),
+            text: l.text,
+            limbIndex: l.limbIndex,
+            jointIndex: l.jointIndex,
+            font: l.font in LABEL_FONTS ? l.font : 'hand',
+            size: isFiniteNumber(l.size) ? Math.min(96, Math.max(8, l.size)) : DEFAULT_LABEL_SIZE,
+            color: typeof l.color === 'string' && /^#[0-9a-f]{6}$/i.test(l.color) ? l.color : undefined
+        });
+    }
+    return labels;
+};
+
+// Returns null when the value is not a usable constraint list.
+const parseConstraints = (raw: unknown): PoseConstraint[] | null => {
+    if (!Array.isArray(raw)) return null;
+    const constraints: PoseConstraint[] = [];
+    for (const c of raw) {
+        const id = typeof c?.id === 'string' && c.id ? c.id : crypto.randomUUID();
+        if (c?.type === 'tip' && Number.isInteger(c.limbA) && Number.isInteger(c.limbB) && c.limbA !== c.limbB) {
+            constraints.push({ id, type: 'tip', limbA: c.limbA, limbB: c.limbB });
+        } else if (c?.type === 'world' && Number.isInteger(c.limb) && isVector3Array(c.point)) {
+            constraints.push({ id, type: 'world', limb: c.limb, point: c.point });
+        } else {
+            return null;
+        }
+    }
+    return constraints;
+};
+
+const constraintLimbs = (c: PoseConstraint) => c.type === 'tip' ? [c.limbA, c.limbB] : [c.limb];
+
+const serializePoseLibrary = (poses: SavedPose[], includeThumbnails: boolean, rig: RigDefinition) => JSON.stringify({
+    format: POSE_LIBRARY_FORMAT,
+    version: POSE_LIBRARY_VERSION,
+    exportedAt: new Date().toISOString(),
+    poses: poses.map(p => ({
+        id: p.id,
+        name: p.name,
+        type: p.type,
+        timestamp: p.timestamp,
+        favorite: p.favorite || undefined,
+        tags: p.tags?.length ? p.tags : undefined,
+        labels: p.labels,
+        constraints: p.constraints?.length ? p.constraints : undefined,
+        body: p.body,
+        rig: p.rig,
+        pose: p.pose,
+        lengths: p.scales
+            ? Object.fromEntries(Object.entries(p.scales).map(([id, r]) => [id, Number((baseSegmentLength(p.rig ?? rig, id) * r).toFixed(3))]))
+            : undefined,
+        thumbnail: includeThumbnails ? p.thumbnail : undefined
+    }))
+}, null, 2);
+
+// Checks one library entry in the current shape and turns it into a gallery entry.
+const parseLibraryEntry = (entry: unknown, where: string, rig: RigDefinition): SavedPose => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) throw new Error(`${where} is not an object`);
+    const p = entry as Record<string, unknown>;
+    if (typeof p.name !== 'string' || !p.name.trim()) throw new Error(`${where}.name must be a non-empty string`);
+    if (!p.pose || typeof p.pose !== 'object') throw new Error(`${where}.pose is missing`);
+    const pose: PoseData = {};
+    Object.entries(p.pose).forEach(([id, value]: [string, unknown]) => {
+        if (!/^limb_\d+_joint_\d+$/.test(id)) throw new Error(`${where}.pose has unknown joint "${id}"`);
+        const r = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+        if (!isFiniteNumber(r.x) || !isFiniteNumber(r.y) || !isFiniteNumber(r.z)) {
+            throw new Error(`${where}.pose.${id} must have numeric x, y and z`);
+        }
+        pose[id] = { x: r.x, y: r.y, z: r.z };
+    });
+    const entryRig = p.rig === undefined ? undefined : parseRig(p.rig);
+    if (entryRig === null) throw new Error(`${where}.rig must have 1-${RIG_MAX_LIMBS} limbs of ${RIG_MIN_SEGMENTS}-${RIG_MAX_SEGMENTS} segments`);
+    let scales: SegmentScales | undefined;
+    if (p.lengths !== undefined) {
+        if (!p.lengths || typeof p.lengths !== 'object') throw new Error(`${where}.lengths must be an object`);
+        scales = {};
+        Object.entries(p.lengths).forEach(([id, length]: [string, unknown]) => {
+            if (!isFiniteNumber(length) || length <= 0) throw new Error(`${where}.lengths.${id} must be a positive number`);
+            scales![id] = length / baseSegmentLength(entryRig ?? rig, id);
+        });
+    }
+    const thumbnail = typeof p.thumbnail === 'string' && p.thumbnail.startsWith('data:image/') ? p.thumbnail : undefined;
+    let tags: string[] | undefined;
+    if (p.tags !== undefined) {
+        if (!Array.isArray(p.tags) || p.tags.some(t => typeof t !== 'string')) throw new Error(`${where}.tags must be an array of strings`);
+        tags = p.tags as string[];
+    }
+    const labels = p.labels === undefined ? undefined : parseLabels(p.labels);
+    if (labels === null) throw new Error(`${where}.labels must be a list of { text, limbIndex, jointIndex }`);
+    const constraints = p.constraints === undefined ? undefined : parseConstraints(p.constraints);
+    if (constraints === null) throw new Error(`${where}.constraints must be a list of tip links { limbA, limbB } or world pins { limb, point }`);
+    let body: number[] | undefined;
+    if (p.body !== undefined) {
+        if (!isQuaternionArray(p.body)) throw new Error(`${where}.body must be a quaternion [x, y, z, w]`);
+        body = p.body;
+    }
+    const type = POSE_TYPES.find(t => t === p.type) ?? 'manual';
+    return {
+        id: typeof p.id === 'string' && p.id ? p.id : crypto.randomUUID(),
+        name: p.name.trim(),
+        pose,
+        scales,
+        thumbnail,
+        timestamp: isFiniteNumber(p.timestamp) ? p.timestamp : Date.now(),
+        type,
+        favorite: p.favorite === true || undefined,
+        tags,
+        labels,
+        constraints,
+        body,
+        rig: entryRig
+    };
+};
+
+// Brings any known version up to the current document shape and checks every entry.
+const migratePoseLibrary = (raw: unknown, rig: RigDefinition): { version: number; poses: SavedPose[] } => {
+    if (Array.isArray(raw)) {
+        // Version 0 stored stretch factors as scales; the file format names world lengths
+        const entries = raw.map((p: unknown) => {
+            if (!p || typeof p !== 'object') return p;
+            const { scales, ...rest } = p as Record<string, unknown>;
+            const lengths = scales && typeof scales === 'object'
+                ? Object.fromEntries(Object.entries(scales).map(([id, r]) => [id, isFiniteNumber(r) ? baseSegmentLength(rig, id) * r : r]))
+                : undefined;
+            return { ...rest, lengths };
+        });
+        return { version: 0, poses: entries.map((p, i) => parseLibraryEntry(p, `poses[${i}]`, rig)) };
+    }
+    if (!raw || typeof raw !== 'object') throw new Error("Not a pose library file");
+    const doc = raw as Record<string, unknown>;
+    if (doc.format !== POSE_LIBRARY_FORMAT) throw new Error("Not a pose library file");
+    if (!isFiniteNumber(doc.version) || doc.version > POSE_LIBRARY_VERSION) {
+        throw new Error(`Unsupported pose library version ${doc.version} (this app reads up to ${POSE_LIBRARY_VERSION})`);
+    }
+    if (!Array.isArray(doc.poses)) throw new Error("Pose library has no poses array");
+    return { version: doc.version, poses: doc.poses.map((p: unknown, i) => parseLibraryEntry(p, `poses[${i}]`, rig)) };
+};
+
+const parsePoseLibrary = (text: string, rig: RigDefinition): SavedPose[] => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch (e) {
+        throw new Error("File is not valid JSON");
+    }
+    return migratePoseLibrary(raw, rig).poses;
+};
+
+// A pose is a duplicate when it shares an id with an existing entry, or has the same name and joint values.
+const mergePoseLibrary = (existing: SavedPose[], incoming: SavedPose[], mode: LibraryImportMode, strategy: DuplicateStrategy): SavedPose[] => {
+    if (mode === 'replace') {
+        // Ids repeated within the file get new ones, so every entry stays editable
+        const seen = new Set<string>();
+        return incoming.map(pose => {
+            const unique = seen.has(pose.id) ? { ...pose, id: crypto.randomUUID() } : pose;
+            seen.add(unique.id);
+            return unique;
+        });
+    }
+    const result = [...existing];
+    incoming.forEach(pose => {
+        const index = result.findIndex(e => e.id === pose.id || (e.name === pose.name && JSON.stringify(e.pose) === JSON.stringify(pose.pose)));
+        if (index === -1) {
+            result.push(pose);
+        } else if (strategy === 'overwrite') {
+            result[index] = { ...pose, id: result[index].id };
+        } else if (strategy === 'keepBoth') {
+            result.push({ ...pose, id: crypto.randomUUID(), name: `${pose.name} (copy)` });
+        }
+    });
+    return result;
+};
+
+// Validates pasted or dropped PoseData against the joints the creature actually has.
+// Every problem names the offending key so it can be fixed at the source.
+const parsePoseJson = (text: string, jointIds: string[]): PoseData => {
+    let raw: any;
+    try {
+        raw = JSON.parse(stripMarkdown(text));
+    } catch (e) {
+        throw new Error(`Not valid JSON (${(e as Error).message})`);
+    }
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error("Pose JSON must be an object keyed by limb_N_joint_M");
+    }
+    const problems: string[] = [];
+    const pose: PoseData = {};
+    Object.keys(raw).forEach(key => {
+        if (!jointIds.includes(key)) problems.push(`unknown key "${key}"`);
+    });
+    jointIds.forEach(id => {
+        const r = raw[id];
+        if (r === undefined) {
+            problems.push(`missing key "${id}"`);
+            return;
+        }
+        const bad = ['x', 'y', 'z'].filter(axis => !isFiniteNumber(r?.[axis]));
+        if (bad.length) {
+            problems.push(`"${id}" needs numeric ${bad.join(', ')}`);
+            return;
+        }
+        pose[id] = { x: r.x, y: r.y, z: r.z };
+    });
+    if (problems.length) {
+        const shown = problems.slice(0, 3).join('; ');
+        throw new Error(`Invalid pose: ${shown}${problems.length > 3 ? `; and ${problems.length - 3} more` : ''}`);
+    }
+    return pose;
+};
+
+const isPoseData = (v: any): v is PoseData =>
+    !!v && typeof v === 'object' && !Array.isArray(v) &&
+    Object.values(v).every((r: any) => r && isFiniteNumber(r.x) && isFiniteNumber(r.y) && isFiniteNumber(r.z));
+
+const isVector3Array = (v: any): v is number[] => Array.isArray(v) && v.length === 3 && v.every(isFiniteNumber);
+const isQuaternionArray = (v: unknown): v is number[] => Array.isArray(v) && v.length === 4 && v.every(isFiniteNumber) && v.some(n => n !== 0);
+
+// Reads whatever part of the workspace cache is still valid. Unknown versions are ignored
+// rather than migrated so an old or newer cache can never break startup.
+const readWorkspaceCache = (): Partial<WorkspaceCache> | null => {
+    try {
+        const raw = JSON.parse(localStorage.getItem(CACHE_KEY) || 'null');
+        if (!raw || typeof raw !== 'object') return null;
+        if (raw.version === undefined) return isPoseData(raw) ? { pose: raw } : null;
+        if (raw.version !== CACHE_VERSION) return null;
+
+        const cache: Partial<WorkspaceCache> = {};
+        if (isPoseData(raw.pose)) cache.pose = raw.pose;
+        if (raw.scales && typeof raw.scales === 'object' && Object.values(raw.scales).every(r => isFiniteNumber(r) && r > 0)) {
+            cache.scales = raw.scales;
+        }
+        const camera = raw.camera;
+        if (camera && isVector3Array(camera.position) && isVector3Array(camera.target) && isFiniteNumber(camera.zoom) && camera.zoom > 0) {
+            cache.camera = camera;
+        }
+        if (raw.settings && typeof raw.settings === 'object') {
+            const settings = raw.settings;
+            const flag = (key: keyof WorkspaceSettings, fallback: boolean) => typeof settings[key] === 'boolean' ? settings[key] : fallback;
+            cache.settings = {
+                showLabels: flag('showLabels', true),
+                snapEnabled: flag('snapEnabled', false),
+                orbitEnabled: flag('orbitEnabled', true),
+                grabEnabled: flag('grabEnabled', true),
+                symmetry: settings.symmetry in SYMMETRY_MODES ? settings.symmetry : 'off',
+                gizmoEnabled: flag('gizmoEnabled', false),
+                refineSketch: flag('refineSketch', false),
+                sketchOverlay: flag('sketchOverlay', false)
+            };
+        }
+        const labels = parseLabels(raw.labels);
+        if (labels) cache.labels = labels;
+        const constraints = parseConstraints(raw.constraints);
+        if (constraints) cache.constraints = constraints;
+        const rig = parseRig(raw.rig);
+        if (rig) cache.rig = rig;
+        if (isQuaternionArray(raw.body)) cache.body = raw.body;
+        return cache;
+    } catch (e) {
+        return null;
+    }
+};
+
+// --- Share Links ---
+// Binary layout (big-endian), base64url-encoded into the URL fragment:
+//   u8  format version
+//   u8  flags (bit 0: dark theme, bit 1: labels shown)
+//   u8  limb count L, then per limb:
+//       i16 azimuth, i16 elevation  scaled like angles below
+//       3 × i8                      knee direction × 127, all zero when unset
+//       u8  segment count S, then S × (u16 length × 1000, u16 thickness × 10000, u16 max bend × 10000, 0 when unlimited)
+//   N × (i16 x, i16 y, i16 z)  Euler angles of every joint in rig order, wrapped to [-π, π] and scaled to ±32767
+//   N × u8                     segment scale, 0.5–1.5 mapped to 0–255
+//   4 × i16                    body quaternion × 32767
+//   i16 phi, i16 theta         camera direction from target (spherical), scaled like angles
+//   u16 radius × 100, u16 zoom × 1000
+//   3 × i16                    orbit target × 1000
+//   u8  label count, then per label:
+//       u8 limb, u8 joint, u8 font (LABEL_FONTS order), u8 size px
+//       u8 has colour, 3 × u8 colour
+//       u8 text byte count, UTF-8 text
+//   u8  constraint count, then per constraint:
+//       u8 0 (tip link), u8 limb A, u8 limb B  or  u8 1 (world pin), u8 limb, 3 × i16 point × 1000
+const toBase64Url = (bytes: Uint8Array) =>
+    btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) => {
+    const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const ANGLE_SCALE = 32767 / Math.PI;
+const quantizeAngle = (a: number) => Math.round((THREE.MathUtils.euclideanModulo(a + Math.PI, Math.PI * 2) - Math.PI) * ANGLE_SCALE);
+const clampInt = (v: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(v)));
+const LABEL_FONT_ORDER = Object.keys(LABEL_FONTS) as LabelFont[];
+
+// Joint ids of a rig in the order the creature is built
+const rigJointIds = (rig: RigDefinition) => rig.limbs.flatMap((limb, i) => limb.segments.map((_, s) => `limb_${i}_joint_${s + 1}`));
+
+// Same layout up to share-link precision
+const rigsMatch = (a: RigDefinition, b: RigDefinition) => {
+    const near = (x: number | undefined, y: number | undefined) => x === undefined || y === undefined ? x === y : Math.abs(x - y) < 1e-3;
+    return a.limbs.length === b.limbs.length && a.limbs.every((limb, i) => {
+        const other = b.limbs[i];
+        const pole = limb.pole && new THREE.Vector3().fromArray(limb.pole).normalize();
+        const otherPole = other.pole && new THREE.Vector3().fromArray(other.pole).normalize();
+        return sameAngle(limb.azimuth, other.azimuth) && sameAngle(limb.elevation, other.elevation) &&
+            (pole && otherPole ? pole.distanceTo(otherPole) < 1e-2 : !pole && !otherPole) &&
+            limb.segments.length === other.segments.length &&
+            limb.segments.every((seg, s) => near(seg.length, other.segments[s].length) && near(seg.thickness, other.segments[s].thickness) &&
+                near(seg.maxBend, other.segments[s].maxBend));
+    });
+};
+
+const encodeShareState = (state: ShareState) => {
+    const bytes: number[] = [];
+    const u8 = (v: number) => { bytes.push(clampInt(v, 0, 255)); };
+    const u16 = (v: number) => { const n = clampInt(v, 0, 65535); bytes.push(n >> 8, n & 255); };
+    const i16 = (v: number) => { const n = clampInt(v, -32768, 32767) & 0xffff; bytes.push(n >> 8, n & 255); };
+    const ids = rigJointIds(state.rig);
+
+    u8(SHARE_FORMAT_VERSION);
+    u8((state.theme === 'dark' ? 1 : 0) | (state.showLabels ? 2 : 0));
+    u8(state.rig.limbs.length);
+    state.rig.limbs.forEach(limb => {
+        i16(quantizeAngle(limb.azimuth));
+        i16(quantizeAngle(limb.elevation));
+        const pole = limb.pole ? new THREE.Vector3().fromArray(limb.pole).normalize().toArray() : [0, 0, 0];
+        pole.forEach(v => u8(clampInt(v * 127, -127, 127) & 255));
+        u8(limb.segments.length);
+        limb.segments.forEach(seg => {
+            u16(seg.length * 1000);
+            u16(seg.thickness * 10000);
+            u16(seg.maxBend === undefined ? 0 : Math.max(1, seg.maxBend * 10000));
+        });
+    });
+    ids.forEach(id => {
+        const r = state.pose[id] ?? { x: 0, y: 0, z: 0 };
+        [r.x, r.y, r.z].forEach(a => i16(quantizeAngle(a)));
+    });
+    ids.forEach(id => u8(((state.scales[id] ?? 1) - 0.5) * 255));
+    state.body.forEach(v => i16(v * 32767));
+
+    const target = new THREE.Vector3().fromArray(state.camera.target);
+    const offset = new THREE.Vector3().fromArray(state.camera.position).sub(target);
+    const spherical = new THREE.Spherical().setFromVector3(offset);
+    i16(quantizeAngle(spherical.phi));
+    i16(quantizeAngle(spherical.theta));
+    u16(Math.max(1, spherical.radius * 100));
+    u16(Math.max(1, state.camera.zoom * 1000));
+    [target.x, target.y, target.z].forEach(v => i16(v * 1000));
+
+    const labels = state.labels.slice(0, 255);
+    u8(labels.length);
+    labels.forEach(label => {
+        u8(label.limbIndex);
+        u8(label.jointIndex);
+        u8(Math.max(0, LABEL_FONT_ORDER.indexOf(label.font)));
+        u8(label.size);
+        u8(label.color ? 1 : 0);
+        const rgb = parseInt((label.color ?? '#000000').slice(1), 16);
+        [rgb >> 16, (rgb >> 8) & 255, rgb & 255].forEach(u8);
+        // Whole characters only, up to 255 bytes
+        const chars = Array.from(label.text);
+        let text = new TextEncoder().encode(label.text);
+        while (text.length > 255) { chars.pop(); text = new TextEncoder().encode(chars.join('')); }
+        u8(text.length);
+        text.forEach(b => bytes.push(b));
+    });
+
+    const constraints = state.constraints.slice(0, 255);
+    u8(constraints.length);
+    constraints.forEach(c => {
+        if (c.type === 'tip') {
+            u8(0); u8(c.limbA); u8(c.limbB);
+        } else {
+            u8(1); u8(c.limb); c.point.forEach(v => i16(v * 1000));
+        }
+    });
+    return toBase64Url(Uint8Array.from(bytes));
+};
+
+const decodeShareState = (code: string): ShareState => {
+    let bytes: Uint8Array;
+    try {
+        bytes = fromBase64Url(code);
+    } catch (e) {
+        throw new Error("Share link is corrupted");
+    }
+    const view = new DataView(bytes.buffer);
+    if (bytes.length < 3) throw new Error("Share link is too short");
+    if (view.getUint8(0) !== SHARE_FORMAT_VERSION) throw new Error("Share link was made by a different version of the app");
+
+    let o = 1;
+    const u8 = () => view.getUint8(o++);
+    const u16 = () => { const v = view.getUint16(o); o += 2; return v; };
+    const i16 = () => { const v = view.getInt16(o); o += 2; return v; };
+    const i8 = () => view.getInt8(o++);
+    try {
+        const flags = u8();
+        const limbs: RigLimb[] = Array.from({ length: u8() }, () => {
+            const azimuth = i16() / ANGLE_SCALE;
+            const elevation = i16() / ANGLE_SCALE;
+            const pole = [i8(), i8(), i8()].map(v => v / 127);
+            const segments = Array.from({ length: u8() }, (): RigSegment => {
+                const length = u16() / 1000;
+                const thickness = u16() / 10000;
+                const maxBend = u16();
+                return { length, thickness, maxBend: maxBend ? maxBend / 10000 : undefined };
+            });
+            return { azimuth, elevation, segments, pole: pole.some(v => v !== 0) ? pole : undefined };
+        });
+        const linkRig = parseRig({ limbs });
+        if (!linkRig) throw new Error("Share link has an unusable rig");
+
+        const jointIds = rigJointIds(linkRig);
+        const pose: PoseData = {};
+        jointIds.forEach(id => { pose[id] = { x: i16() / ANGLE_SCALE, y: i16() / ANGLE_SCALE, z: i16() / ANGLE_SCALE }; });
+        const scales: SegmentScales = {};
+        jointIds.forEach(id => { scales[id] = 0.5 + u8() / 255; });
+        const body = [i16(), i16(), i16(), i16()].map(v => v / 32767);
+        if (!isQuaternionArray(body)) throw new Error("Share link has an unusable body rotation");
+        const phi = i16() / ANGLE_SCALE;
+        const theta = i16() / ANGLE_SCALE;
+        const radius = u16() / 100;
+        const zoom = u16() / 1000;
+        const target = [i16(), i16(), i16()].map(v => v / 1000);
+        const position = new THREE.Vector3().setFromSphericalCoords(radius, phi, theta).add(new THREE.Vector3().fromArray(target));
+
+        const labels: PoseLabel[] = Array.from({ length: u8() }, () => {
+            const limbIndex = u8();
+            const jointIndex = u8();
+            const font = LABEL_FONT_ORDER[u8()] ?? 'hand';
+            const size = Math.min(96, Math.max(8, u8()));
+            const hasColor = u8() === 1;
+            const rgb = [u8(), u8(), u8()];
+            const length = u8();
+            if (o + length > bytes.length) throw new RangeError();
+            const text = new TextDecoder().decode(bytes.subarray(o, o + length));
+            o += length;
+            const color = hasColor ? `#${rgb.map(v => v.toString(16).padStart(2, '0')).join('')}` : undefined;
+            return { id: crypto.randomUUID(), text, limbIndex, jointIndex, font, size, color };
+        });
+        const constraints: PoseConstraint[] = Array.from({ length: u8() }, (): PoseConstraint => {
+            const type = u8();
+            if (type === 0) return { id: crypto.randomUUID(), type: 'tip', limbA: u8(), limbB: u8() };
+            if (type === 1) return { id: crypto.randomUUID(), type: 'world', limb: u8(), point: [i16(), i16(), i16()].map(v => v / 1000) };
+            throw new Error("Share link has an unknown constraint");
+        });
+        if (o !== bytes.length) throw new Error("Share link has trailing data");
+
+        return {
+            pose,
+            scales,
+            camera: { position: position.toArray(), zoom, target },
+            theme: flags & 1 ? 'dark' : 'light',
+            showLabels: (flags & 2) !== 0,
+            rig: linkRig,
+            body,
+            labels,
+            constraints: constraints.filter(c => constraintLimbs(c).every(limb => limb < linkRig.limbs.length))
+        };
+    } catch (err) {
+        if (err instanceof RangeError) throw new Error("Share link is truncated");
+        throw err;
+    }
+};
+
 const App = () => {
   const mountRef = useRef<HTMLDivElement>(null);
   
@@ -154,11 +1514,22 @@ const App = () => {
   });
 
   const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedCount, setSelectedCount] = useState(0);
+  const [selectionBox, setSelectionBox] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+  const [isBodyMode, setIsBodyMode] = useState(false);
+  const [angleUnit, setAngleUnit] = useState<AngleUnit>('deg');
+  const angleUnitRef = useRef(angleUnit);
+  const inspectorSliderRefs = useRef<(HTMLInputElement | null)[]>([]);
+  const inspectorFieldRefs = useRef<(HTMLInputElement | null)[]>([]);
+  // Joints a focused angle field will set; clicking another joint blurs the field after selecting
+  const angleFieldJointsRef = useRef<THREE.Object3D[]>([]);
   const [copied, setCopied] = useState(false);
   const [isCanvasMode, setIsCanvasMode] = useState(false);
   const [isGalleryMode, setIsGalleryMode] = useState(false);
+  const [galleryPurpose, setGalleryPurpose] = useState<'apply' | 'keyframe'>('apply');
   const [isGenerating, setIsGenerating] = useState(false);
-  const [showLabels, setShowLabels] = useState(true);
+  const [initialCache] = useState(readWorkspaceCache);
+  const [showLabels, setShowLabels] = useState(initialCache?.settings?.showLabels ?? true);
   
   // Use refs to track state in animation loop and event handlers to avoid stale closures
   const showLabelsRef = useRef(showLabels);
@@ -169,9 +1540,15 @@ const App = () => {
   useEffect(() => { isCanvasModeRef.current = isCanvasMode; }, [isCanvasMode]);
   useEffect(() => { isGeneratingRef.current = isGenerating; }, [isGenerating]);
   
-  const [orbitEnabled, setOrbitEnabled] = useState(true);
-  const [grabEnabled, setGrabEnabled] = useState(true);
-  const [snapEnabled, setSnapEnabled] = useState(false);
+  const [orbitEnabled, setOrbitEnabled] = useState(initialCache?.settings?.orbitEnabled ?? true);
+  const [grabEnabled, setGrabEnabled] = useState(initialCache?.settings?.grabEnabled ?? true);
+  const [snapEnabled, setSnapEnabled] = useState(initialCache?.settings?.snapEnabled ?? false);
+  const [symmetryMode, setSymmetryMode] = useState<SymmetryMode>(initialCache?.settings?.symmetry ?? 'off');
+  const [gizmoEnabled, setGizmoEnabled] = useState(initialCache?.settings?.gizmoEnabled ?? false);
+  const [refineSketch, setRefineSketch] = useState(initialCache?.settings?.refineSketch ?? false);
+  const [sketchOverlay, setSketchOverlay] = useState(initialCache?.settings?.sketchOverlay ?? false);
+  const settingsRef = useRef<WorkspaceSettings>({ showLabels, snapEnabled, orbitEnabled, grabEnabled, symmetry: symmetryMode, gizmoEnabled, refineSketch, sketchOverlay });
+  const cacheSaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   
   const [savedPoses, setSavedPoses] = useState<SavedPose[]>(() => {
       try {
@@ -186,29 +1563,149 @@ const App = () => {
   const cameraRef = useRef<THREE.OrthographicCamera | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const controlsRef = useRef<OrbitControls | null>(null);
+  // Rotation gizmo, drawn on top of the creature from its own scene so exports never include it
+  const gizmoRef = useRef<TransformControls | null>(null);
+  const gizmoSceneRef = useRef(new THREE.Scene());
+  const gizmoStartRef = useRef(new THREE.Quaternion());
   const creatureRef = useRef<THREE.Group | null>(null);
-  const selectedMeshRef = useRef<THREE.Mesh | null>(null);
+  const selectedMeshRef = useRef<THREE.Mesh | null>(null); // Active joint, shown in the inspector
+  const selectionRef = useRef<THREE.Mesh[]>([]); // Every selected joint's visual, including the active one
+  const rotationClipboardRef = useRef<THREE.Euler | null>(null);
+  // additive is taken at pointer down: Shift starts every box, Ctrl/Cmd keeps the selection
+  const boxSelectRef = useRef<{ x0: number; y0: number; x1: number; y1: number; additive: boolean } | null>(null);
   const raycasterRef = useRef(new THREE.Raycaster());
   const mouseRef = useRef(new THREE.Vector2());
   
   // Interaction State
   const isDraggingRef = useRef(false);
-  const dragModeRef = useRef<'joint_rotate' | 'ik_drag' | null>(null);
+  const dragModeRef = useRef<'joint_rotate' | 'ik_drag' | 'body_rotate' | 'box_select' | null>(null);
   const dragTargetRef = useRef<THREE.Object3D | null>(null); 
   const dragPlaneRef = useRef(new THREE.Plane());
+  const ikPoleRef = useRef<THREE.Vector3 | null>(null); // World point the dragged limb keeps bending towards
   
   const previousPointerRef = useRef({ x: 0, y: 0 });
   const lastTapRef = useRef(0);
 
-  // Canvas State
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const ctxRef = useRef<CanvasRenderingContext2D | null>(null);
-  const isDrawingRef = useRef(false);
-  const strokesRef = useRef<Stroke[]>([]);
+  // Undo/Redo History
+  const historyRef = useRef<{ past: PoseSnapshot[]; future: PoseSnapshot[] }>({ past: [], future: [] });
+  const pendingSnapshotRef = useRef<PoseSnapshot | null>(null);
+  const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false });
+
+  // Timeline State
+  const [isTimelineOpen, setIsTimelineOpen] = useState(false);
+  const [keyframes, setKeyframes] = useState<Keyframe[]>([]);
+  const [selectedKeyframeId, setSelectedKeyframeId] = useState<string | null>(null);
+  const [playbackMode, setPlaybackMode] = useState<PlaybackMode>('loop');
+  const [isPlaying, setIsPlaying] = useState(false);
+  const keyframesRef = useRef(keyframes);
+  const playbackModeRef = useRef(playbackMode);
+  // clock runs over [0, 2 * duration) in ping-pong mode and is folded back into time
+  const playbackRef = useRef({ playing: false, clock: 0, time: 0, lastFrame: 0 });
+  const scrubRef = useRef<HTMLInputElement>(null);
+  const timeReadoutRef = useRef<HTMLSpanElement>(null);
+
+  // Export State
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [modelExport, setModelExport] = useState({ binary: true, includeClips: true });
+  const [pageSize, setPageSize] = useState('a4');
+  const [vectorBackground, setVectorBackground] = useState<VectorBackground>('paper');
+
+  // Pose Library Import/Export
+  const libraryInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<SavedPose[] | null>(null);
+  const [importMode, setImportMode] = useState<LibraryImportMode>('merge');
+  const [duplicateStrategy, setDuplicateStrategy] = useState<DuplicateStrategy>('skip');
+  const [includeThumbnails, setIncludeThumbnails] = useState(true);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+
+  // Gallery Management
+  const [galleryQuery, setGalleryQuery] = useState('');
+  const [galleryFilter, setGalleryFilter] = useState<GalleryFilter>('all');
+  const [editingPoseId, setEditingPoseId] = useState<string | null>(null);
+  const [poseDraft, setPoseDraft] = useState({ name: '', tags: '' });
+  const [lastDeleted, setLastDeleted] = useState<{ pose: SavedPose; index: number } | null>(null);
+  const draggingPoseIdRef = useRef<string | null>(null);
+  const longPressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const longPressFiredRef = useRef(false);
+
+  // Transient message shown at the top of the viewport
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+  const noticeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => { keyframesRef.current = keyframes; }, [keyframes]);
+  useEffect(() => { playbackModeRef.current = playbackMode; }, [playbackMode]);
+
+  // Canvas State
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const ctxRef = useRef<CanvasRenderingContext2D | null>(null);
+  const isDrawingRef = useRef(false);
+  const strokesRef = useRef<Stroke[]>([]);
   const currentStrokeRef = useRef<{x: number, y: number}[]>([]);
+  const sketchHandleRef = useRef<{ stroke: number; joint: number } | null>(null); // Knee or tip dot being dragged
+  const tapStrokeRef = useRef<number | null>(null); // Stroke under the pointer when the current stroke began
+  const redrawIndexRef = useRef<number | null>(null); // Stroke the next one drawn replaces
   const [strokeCount, setStrokeCount] = useState(0);
+  const [visionConfig, setVisionConfig] = useState<VisionConfig>(readVisionConfig);
+  const [isVisionPanelOpen, setIsVisionPanelOpen] = useState(false);
+  const [sketchError, setSketchError] = useState<string | null>(null);
+  // Traceable image under the sketch; x/y offset it from the center in px
+  const [sketchReference, setSketchReference] = useState<{ src: string; opacity: number; scale: number; x: number; y: number } | null>(null);
+  const referenceInputRef = useRef<HTMLInputElement>(null);
+
+  // Object URLs of replaced or removed references are released
+  useEffect(() => {
+      const src = sketchReference?.src;
+      return () => { if (src) URL.revokeObjectURL(src); };
+  }, [sketchReference?.src]);
+  const sketchAbortRef = useRef<AbortController | null>(null);
+  const [posePrompt, setPosePrompt] = useState('');
+  const [poseCandidates, setPoseCandidates] = useState<SavedPose[]>([]);
+  const [promptError, setPromptError] = useState<string | null>(null);
+
+  useEffect(() => {
+      try {
+          localStorage.setItem(VISION_CONFIG_KEY, JSON.stringify(visionConfig));
+      } catch (e) {
+          console.error(e);
+      }
+  }, [visionConfig]);
+
+  // Rig
+  const [rig, setRig] = useState<RigDefinition>(initialCache?.rig ?? DEFAULT_RIG);
+  const [isRigEditorOpen, setIsRigEditorOpen] = useState(false);
+  const [rigEditLimb, setRigEditLimb] = useState<number | null>(null); // null edits every limb alike
+  const rigRef = useRef(rig);
 
-  const labelRefs = useRef<(HTMLDivElement | null)[]>([]);
+  // Labels
+  const [labels, setLabels] = useState<PoseLabel[]>(initialCache?.labels ?? DEFAULT_LABELS);
+  const [isLabelEditorOpen, setIsLabelEditorOpen] = useState(false);
+  const labelsRef = useRef(labels);
+  const labelRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const leaderRefs = useRef<Record<string, SVGPathElement | null>>({});
+
+  useEffect(() => {
+      labelsRef.current = labels;
+      scheduleCacheSave();
+  }, [labels]);
+
+  // Constraints
+  const [constraints, setConstraints] = useState<PoseConstraint[]>(initialCache?.constraints ?? []);
+  const constraintsRef = useRef(constraints);
+  const constraintMarkerRefs = useRef<Record<string, SVGGElement | null>>({});
+  const snapLimbRef = useRef<number | null>(null); // Limb whose tip the dragged tip is snapped onto
+
+  useEffect(() => {
+      constraintsRef.current = constraints;
+      scheduleCacheSave();
+  }, [constraints]);
+
+  // The ref is set at once so history snapshots and enforceConstraints see the change
+  const updateConstraints = (next: PoseConstraint[]) => {
+      constraintsRef.current = next;
+      setConstraints(next);
+  };
 
   const limbMaterialRef = useRef<THREE.MeshStandardMaterial>(new THREE.MeshStandardMaterial());
   const highlightMaterialRef = useRef<THREE.MeshStandardMaterial>(new THREE.MeshStandardMaterial());
@@ -219,12 +1716,14 @@ const App = () => {
 
   const lightsRef = useRef<{ ambient: THREE.AmbientLight; directional: THREE.DirectionalLight; back: THREE.DirectionalLight; } | null>(null);
 
-  const toggleTheme = () => {
-      const next = theme === 'light' ? 'dark' : 'light';
+  // Remembered across reloads, like the system preference it overrides
+  const applyTheme = (next: ThemeMode) => {
       setTheme(next);
       localStorage.setItem('theme', next);
   };
 
+  const toggleTheme = () => applyTheme(theme === 'light' ? 'dark' : 'light');
+
   useEffect(() => {
     localStorage.setItem(SAVED_POSES_KEY, JSON.stringify(savedPoses));
   }, [savedPoses]);
@@ -270,7 +1769,8 @@ const App = () => {
     camera.updateProjectionMatrix();
     cameraRef.current = camera;
 
-    const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: false, preserveDrawingBuffer: true });
+    // Alpha is only visible when an export clears the scene background
+    const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true, preserveDrawingBuffer: true });
     renderer.setSize(window.innerWidth, window.innerHeight);
     renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
     renderer.shadowMap.enabled = true;
@@ -295,7 +1795,22 @@ const App = () => {
     controls.enabled = true;
     controlsRef.current = controls;
 
+    const gizmo = new TransformControls(camera, renderer.domElement);
+    gizmo.setMode('rotate');
+    gizmo.setSpace('local');
+    gizmo.setSize(0.7);
+    // Like the joint drag, the gizmo holds orbiting off while it is being dragged
+    gizmo.addEventListener('dragging-changed', e => { controls.enabled = !e.value && settingsRef.current.orbitEnabled; });
+    gizmo.addEventListener('mouseDown', handleGizmoDown);
+    gizmo.addEventListener('objectChange', handleGizmoChange);
+    gizmo.addEventListener('mouseUp', commitHistoryStep);
+    gizmoRef.current = gizmo;
+    // From three r169 the controls are no longer an Object3D; their drawable part is getHelper()
+    const gizmoHelper = (gizmo as TransformControls & { getHelper?: () => THREE.Object3D }).getHelper?.() ?? gizmo;
+    gizmoSceneRef.current.add(gizmoHelper);
+
     const creatureGroup = new THREE.Group();
+    creatureGroup.name = "creature";
     creatureRef.current = creatureGroup;
     scene.add(creatureGroup);
 
@@ -311,196 +1826,496 @@ const App = () => {
     limbMaterialRef.current.color.setHex(isDark ? 0xF2F2F7 : 0x111111);
     jointMaterialRef.current.color.setHex(isDark ? 0x2c2c2e : 0x444444);
 
-    const angles = [0, Math.PI/2, Math.PI, 3*Math.PI/2];
-    
-    const createLimb = (isUpper: boolean, angle: number, index: number) => {
-        const pivotGroup = new THREE.Group();
-        pivotGroup.rotation.y = angle;
-        const verticalAngle = isUpper ? Math.PI / 4 : -Math.PI / 4;
-        pivotGroup.rotation.z = verticalAngle;
-        creatureGroup.add(pivotGroup);
+    buildLimbs(creatureGroup, rigRef.current);
 
-        // Segment 1
-        const seg1Length = LIMB_SEGMENT_1_LENGTH;
-        const thickness = 0.05; 
-        const seg1BaseGeo = new THREE.BoxGeometry(thickness, seg1Length, thickness, 3, 12, 3);
-        const seg1Geo = createWobblyGeometry(seg1BaseGeo, 0.02);
-        const seg1 = new THREE.Mesh(seg1Geo, limbMaterialRef.current);
-        seg1.position.y = seg1Length / 2;
-        seg1.name = "visual";
-        
-        // Enlarged Hitbox Size for easier grabbing
-        const seg1HitboxGeo = new THREE.BoxGeometry(0.25, seg1Length, 0.25);
-        const seg1Hitbox = new THREE.Mesh(seg1HitboxGeo, invisibleMaterialRef.current);
-        seg1Hitbox.position.y = seg1Length / 2;
-        seg1Hitbox.userData = { isPart: true, isHitbox: true, type: 'joint', limbIndex: index, jointIndex: 1 };
-        seg1Hitbox.name = "hitbox_j1";
-
-        const seg1Wrapper = new THREE.Group();
-        seg1Wrapper.userData = { isJoint: true, id: `limb_${index}_joint_1`, jointIndex: 1, limbIndex: index };
-        seg1Wrapper.name = `limb_${index}_joint_1`;
-        seg1Wrapper.add(seg1);
-        seg1Wrapper.add(seg1Hitbox); 
-        pivotGroup.add(seg1Wrapper);
-
-        // Joint Mesh (Knee/Elbow) - Hidden but structural
-        const joint = new THREE.Mesh(new THREE.SphereGeometry(thickness * 2.5, 12, 12), jointMaterialRef.current);
-        joint.position.y = seg1Length / 2;
-        joint.visible = false; 
-        seg1.add(joint);
-        
-        // Knee Hitbox - Enlarged
-        const kneeHitbox = new THREE.Mesh(new THREE.SphereGeometry(0.4, 16, 16), invisibleMaterialRef.current);
-        kneeHitbox.position.y = seg1Length / 2;
-        kneeHitbox.userData = { isPart: true, isHitbox: true, type: 'knee', limbIndex: index };
-        seg1.add(kneeHitbox);
-
-        // Segment 2
-        const seg2Length = LIMB_SEGMENT_2_LENGTH;
-        const seg2BaseGeo = new THREE.ConeGeometry(thickness * 0.6, seg2Length, 6, 12);
-        const seg2Geo = createWobblyGeometry(seg2BaseGeo, 0.02);
-        const seg2 = new THREE.Mesh(seg2Geo, limbMaterialRef.current);
-        seg2.position.y = seg2Length / 2;
-        seg2.name = "visual";
-
-        // Tip Hitbox - Enlarged & Position Fixed
-        // Geometry was centered in seg2, so visual tip is at seg2Length/2 in seg2 local space.
-        const tipHitbox = new THREE.Mesh(new THREE.SphereGeometry(0.5, 16, 16), invisibleMaterialRef.current);
-        tipHitbox.position.y = seg2Length / 2; // Fixed: Position at the tip of the cone
-        tipHitbox.userData = { isPart: true, isHitbox: true, type: 'tip', limbIndex: index };
-        tipHitbox.name = "hitbox_tip";
-        seg2.add(tipHitbox);
-
-        // Standard segment hitbox - Enlarged
-        const seg2HitboxGeo = new THREE.ConeGeometry(0.25, seg2Length, 8);
-        const seg2Hitbox = new THREE.Mesh(seg2HitboxGeo, invisibleMaterialRef.current);
-        seg2Hitbox.position.y = seg2Length / 2;
-        seg2Hitbox.userData = { isPart: true, isHitbox: true, type: 'segment', limbIndex: index, jointIndex: 2 };
-        seg2Hitbox.name = "hitbox_j2";
-
-        const seg2Wrapper = new THREE.Group();
-        seg2Wrapper.userData = { isJoint: true, id: `limb_${index}_joint_2`, jointIndex: 2, limbIndex: index };
-        seg2Wrapper.name = `limb_${index}_joint_2`;
-        seg2Wrapper.position.y = seg1Length; 
-
-        seg2Wrapper.add(seg2);
-        seg2Wrapper.add(seg2Hitbox);
-        seg1Wrapper.add(seg2Wrapper);
-    };
-
-    angles.forEach((angle, i) => createLimb(true, angle, i));
-    angles.forEach((angle, i) => createLimb(false, angle, i + 4));
-
-    try {
-        const cached = localStorage.getItem(CACHE_KEY);
-        if (cached) applyPoseToRef(JSON.parse(cached), creatureGroup);
-        else applyPoseToRef(INITIAL_POSE, creatureGroup);
-    } catch (e) { applyPoseToRef(INITIAL_POSE, creatureGroup); }
+    // Restore the working pose and camera; joints missing from an old cache keep the rest pose
+    applyPoseToRef(restPose(rigRef.current), creatureGroup);
+    if (initialCache?.pose) applyPoseToRef(initialCache.pose, creatureGroup);
+    if (initialCache?.scales) applySegmentScalesToRef(initialCache.scales, creatureGroup);
+    if (initialCache?.body) creatureGroup.quaternion.fromArray(initialCache.body).normalize();
+    if (initialCache?.camera) {
+        camera.position.fromArray(initialCache.camera.position);
+        camera.zoom = initialCache.camera.zoom;
+        camera.updateProjectionMatrix();
+        controls.target.fromArray(initialCache.camera.target);
+        controls.update();
+    }
+    controls.addEventListener('change', scheduleCacheSave);
 
     const animate = () => {
       requestAnimationFrame(animate);
+      advancePlayback(performance.now());
       if (controlsRef.current) controlsRef.current.update();
       if (rendererRef.current && sceneRef.current && cameraRef.current) {
         rendererRef.current.render(sceneRef.current, cameraRef.current);
+        if (gizmoRef.current?.object) {
+            // Drawn over the creature, never hidden inside it
+            rendererRef.current.autoClear = false;
+            rendererRef.current.clearDepth();
+            rendererRef.current.render(gizmoSceneRef.current, cameraRef.current);
+            rendererRef.current.autoClear = true;
+        }
         updateLabels(creatureGroup);
+        updateConstraintMarkers();
+        syncInspector();
       }
     };
     animate();
 
     return () => {
+      controls.removeEventListener('change', scheduleCacheSave);
+      gizmo.dispose();
       window.removeEventListener("resize", handleResize);
       mountRef.current?.removeChild(renderer.domElement);
       renderer.dispose();
     };
   }, []);
 
-  const updateLabels = (creatureGroup: THREE.Group) => {
-    // Check refs to avoid stale closures in animation loop
-    if (isCanvasModeRef.current) return;
-    
+  // One pivot per limb holding a chain of joint wrappers, one per segment, as laid out by the rig.
+  // Wrappers carry their segment's rest length and thickness for scaling, IK and exports.
+  const buildLimbs = (creatureGroup: THREE.Group, rig: RigDefinition) => {
+    rig.limbs.forEach((limb, index) => {
+        const pivotGroup = new THREE.Group();
+        pivotGroup.name = `limb_${index}_root`;
+        pivotGroup.rotation.y = limb.azimuth;
+        pivotGroup.rotation.z = limb.elevation;
+        creatureGroup.add(pivotGroup);
+
+        let parent: THREE.Object3D = pivotGroup;
+        limb.segments.forEach(({ length, thickness, maxBend }, s) => {
+            const jointIndex = s + 1;
+            const isLast = jointIndex === limb.segments.length;
+
+            // Inner segments are boxes, the last one tapers to a cone
+            const baseGeo = isLast
+                ? new THREE.ConeGeometry(thickness * 0.6, length, 6, 12)
+                : new THREE.BoxGeometry(thickness, length, thickness, 3, 12, 3);
+            const visual = new THREE.Mesh(createWobblyGeometry(baseGeo, 0.02), limbMaterialRef.current);
+            visual.position.y = length / 2;
+            visual.name = "visual";
+
+            // Enlarged Hitbox Size for easier grabbing
+            const hitboxGeo = isLast ? new THREE.ConeGeometry(0.25, length, 8) : new THREE.BoxGeometry(0.25, length, 0.25);
+            const hitbox = new THREE.Mesh(hitboxGeo, invisibleMaterialRef.current);
+            hitbox.position.y = length / 2;
+            hitbox.userData = { isPart: true, isHitbox: true, type: s === 0 ? 'joint' : 'segment', limbIndex: index, jointIndex };
+            hitbox.name = `hitbox_j${jointIndex}`;
+
+            // Knee or tip hitbox. Geometry is centered in the visual, so its far end is at length / 2.
+            const endHitbox = new THREE.Mesh(new THREE.SphereGeometry(isLast ? 0.5 : 0.4, 16, 16), invisibleMaterialRef.current);
+            endHitbox.position.y = length / 2;
+            endHitbox.userData = { isPart: true, isHitbox: true, type: isLast ? 'tip' : 'knee', limbIndex: index, jointIndex };
+            endHitbox.name = isLast ? "hitbox_tip" : `hitbox_knee_${jointIndex}`;
+            visual.add(endHitbox);
+
+            if (!isLast) {
+                // Joint Mesh (Knee/Elbow) - Hidden but structural
+                const joint = new THREE.Mesh(new THREE.SphereGeometry(thickness * 2.5, 12, 12), jointMaterialRef.current);
+                joint.position.y = length / 2;
+                joint.visible = false;
+                visual.add(joint);
+            }
+
+            const wrapper = new THREE.Group();
+            wrapper.userData = { isJoint: true, id: `limb_${index}_joint_${jointIndex}`, jointIndex, limbIndex: index, length, thickness, maxBend, isLast };
+            wrapper.name = `limb_${index}_joint_${jointIndex}`;
+            if (s > 0) wrapper.position.y = limb.segments[s - 1].length;
+            wrapper.add(visual);
+            wrapper.add(hitbox);
+            parent.add(wrapper);
+            parent = wrapper;
+        });
+    });
+  };
+
+  // Rebuilds the creature for a new rig. Joints both rigs share keep their rotation and scale.
+  const rebuildRig = (next: RigDefinition) => {
+      const creature = creatureRef.current;
+      if (!creature) return;
+      const pose = extractPose(creature);
+      const scales = extractSegmentScales(creature);
+      if (playbackRef.current.playing) stopPlayback();
+      clearSelection();
+
+      creature.traverse(obj => { if (obj instanceof THREE.Mesh) obj.geometry.dispose(); });
+      creature.clear();
+      buildLimbs(creature, next);
+      applyPoseToRef(restPose(next), creature);
+      applyPoseToRef(pose, creature);
+      applySegmentScalesToRef(scales, creature);
+
+      rigRef.current = next;
+      setRig(next);
+      updateConstraints(constraintsRef.current.filter(c => constraintLimbs(c).every(limb => limb < next.limbs.length)));
+      scheduleCacheSave();
+  };
+
+  // Rig edits are history steps, so undo rebuilds the previous rig along with its pose
+  const applyRig = (next: RigDefinition) => recordHistory(() => rebuildRig(next));
+
+  // Applies a rig panel edit to one limb, or to every limb when limbIndex is null
+  const editRigLimbs = (limbIndex: number | null, edit: (limb: RigLimb) => RigLimb) => {
+      applyRig({ limbs: rigRef.current.limbs.map((limb, i) => limbIndex === null || limbIndex === i ? edit(limb) : limb) });
+  };
+
+  // A new limb count lays the pivots out afresh; existing limbs keep their segments and knee
+  // direction, and added ones get the default segments
+  const setRigLimbCount = (count: number) => {
+      const limbs = rigRef.current.limbs;
+      const layout = buildRig(count, DEFAULT_RIG.limbs[0].segments.map(seg => seg.length), LIMB_THICKNESS);
+      applyRig({ limbs: layout.limbs.map((limb, i) => limbs[i] ? { ...limb, segments: limbs[i].segments, pole: limbs[i].pole } : limb) });
+  };
+
+  // Added segments copy the limb's last one
+  const withSegmentCount = (limb: RigLimb, count: number): RigLimb => ({
+      ...limb,
+      segments: Array.from({ length: count }, (_, s) => limb.segments[Math.min(s, limb.segments.length - 1)])
+  });
+
+  const withSegment = (limb: RigLimb, index: number, patch: Partial<RigSegment>): RigLimb => ({
+      ...limb,
+      segments: limb.segments.map((seg, s) => s === index ? { ...seg, ...patch } : seg)
+  });
+
+  // --- Limb IK ---
+  // Joint wrappers of a limb from joint_1 out to the tip
+  const getLimbChain = (joint1: THREE.Object3D) => {
+      const chain: THREE.Object3D[] = [];
+      for (let j: THREE.Object3D | undefined = joint1; j; j = j.children.find(c => c.userData.isJoint)) chain.push(j);
+      return chain;
+  };
+
+  // World position of every joint in the chain followed by the tip, at their current (scaled) lengths
+  const getChainPoints = (chain: THREE.Object3D[]) => {
+      chain[0].updateWorldMatrix(true, true);
+      const points = chain.map(j => j.getWorldPosition(new THREE.Vector3()));
+      const last = chain[chain.length - 1];
+      const visual = last.children.find(c => c.name === 'visual');
+      points.push(last.localToWorld(new THREE.Vector3(0, last.userData.length * (visual?.scale.y ?? 1), 0)));
+      return points;
+  };
+
+  // The side the limb already bends to, so a drag keeps it bending that way. A straight limb
+  // bends the way its knees turn about their local Z.
+  const getChainPole = (chain: THREE.Object3D[]) => {
+      const points = getChainPoints(chain);
+      const root = points[0];
+      const line = new THREE.Vector3().subVectors(points[points.length - 1], root).normalize();
+      let pole: THREE.Vector3 | null = null;
+      let maxOffset = 1e-3;
+      points.slice(1, -1).forEach(p => {
+          const offset = new THREE.Vector3().subVectors(p, root).projectOnPlane(line);
+          if (offset.length() > maxOffset) {
+              maxOffset = offset.length();
+              pole = p.clone().add(offset);
+          }
+      });
+      return pole ?? points[1].clone().add(new THREE.Vector3(-1, 0, 0).transformDirection(chain[0].matrixWorld));
+  };
+
+  // IK pole for the limb: a limb's length out from its root in the rig's knee direction when one
+  // is set, otherwise the side the limb already bends to
+  const getLimbPole = (joint1: THREE.Object3D) => {
+      const chain = getLimbChain(joint1);
+      const direction = rigRef.current.limbs[joint1.userData.limbIndex]?.pole;
+      if (!direction) return getChainPole(chain);
+      const points = getChainPoints(chain);
+      const reach = points.slice(1).reduce((sum, p, i) => sum + p.distanceTo(points[i]), 0);
+      const bodyQ = creatureRef.current!.getWorldQuaternion(new THREE.Quaternion());
+      return points[0].addScaledVector(new THREE.Vector3().fromArray(direction).normalize().applyQuaternion(bodyQ), reach);
+  };
+
+  // Reaches the limb's tip towards target, turning each joint by the smallest rotation onto its
+  // solved direction so twist about the segment is kept.
+  const solveLimbIK = (joint1: THREE.Object3D, target: THREE.Vector3, pole: THREE.Vector3 | null) => {
+      const chain = getLimbChain(joint1);
+      const points = getChainPoints(chain);
+      const rootAxis = new THREE.Vector3(0, 1, 0).transformDirection(joint1.parent!.matrixWorld);
+      const limits = chain.map(j => j.userData.maxBend ?? Math.PI);
+      const solved = solveFabrik(points, target, rootAxis, limits, pole);
+      chain.forEach((joint, i) => {
+          joint.updateWorldMatrix(true, false);
+          const current = new THREE.Vector3(0, 1, 0).transformDirection(joint.matrixWorld);
+          const desired = new THREE.Vector3().subVectors(solved[i + 1], solved[i]).normalize();
+          const worldQ = joint.getWorldQuaternion(new THREE.Quaternion());
+          worldQ.premultiply(new THREE.Quaternion().setFromUnitVectors(current, desired));
+          const parentQ = joint.parent!.getWorldQuaternion(new THREE.Quaternion());
+          joint.quaternion.copy(parentQ.invert().multiply(worldQ));
+      });
+  };
+
+  // --- Symmetry ---
+  // Creature-space orientation of every joint in the chain, root first
+  const getChainFrames = (chain: THREE.Object3D[]) => {
+      const frames: THREE.Quaternion[] = [];
+      chain.forEach((joint, i) => frames.push((i ? frames[i - 1] : chain[0].parent!.quaternion).clone().multiply(joint.quaternion)));
+      return frames;
+  };
+
+  // Sets the limb's local rotations so its joints take the given creature-space orientations
+  const setChainFrames = (joint1: THREE.Object3D, frames: THREE.Quaternion[]) => {
+      let parentQ = joint1.parent!.quaternion;
+      getLimbChain(joint1).slice(0, frames.length).forEach((joint, i) => {
+          joint.quaternion.copy(parentQ.clone().invert().multiply(frames[i]));
+          parentQ = frames[i];
+      });
+  };
+
+  // Copies the limb's pose onto its counterparts under the current symmetry mode
+  const applySymmetry = (limbIndex: number) => {
+      const creature = creatureRef.current;
+      const source = creature?.getObjectByName(`limb_${limbIndex}_joint_1`);
+      if (!creature || !source) return;
+      const frames = getChainFrames(getLimbChain(source));
+      getSymmetryCounterparts(rigRef.current, limbIndex, settingsRef.current.symmetry).forEach(({ limbIndex: j, transform }) => {
+          const target = creature.getObjectByName(`limb_${j}_joint_1`);
+          if (target) setChainFrames(target, frames.map(q => transformFrame(q, transform)));
+      });
+  };
+
+  // Mirrors the pose left/right. Limbs facing the camera or away from it are their own
+  // mirror image; limbs without a partner in the rig keep their pose. With a selection, only
+  // the selected limbs are mirrored onto their partners.
+  const mirrorPose = () => {
+      const creature = creatureRef.current;
+      if (!creature) return;
+      const mirror = reflectionMatrix(new THREE.Vector3(1, 0, 0));
+      const limbs = rigRef.current.limbs;
+      const selected = new Set(getSelectedJoints().map(j => j.userData.limbIndex));
+      const updates = limbs.map((limb, i) => {
+          if (selected.size && !selected.has(i)) return null;
+          const partner = limbs.findIndex(l => sameAngle(l.elevation, limb.elevation) && sameAngle(l.azimuth, Math.PI - limb.azimuth));
+          const source = creature.getObjectByName(`limb_${i}_joint_1`);
+          const target = creature.getObjectByName(`limb_${partner}_joint_1`);
+          if (!source || !target) return null;
+          const chain = getLimbChain(source);
+          // Stretched segments carry over to the partner, segment by segment
+          const scales: SegmentScales = {};
+          getLimbChain(target).forEach((joint, s) => {
+              const visual = chain[s]?.children.find(c => c.name === 'visual');
+              scales[joint.userData.id] = visual ? visual.scale.y : 1;
+          });
+          return { target, scales, frames: getChainFrames(chain).map(q => transformFrame(q, mirror)) };
+      });
+      updates.forEach(u => {
+          if (!u) return;
+          applySegmentScalesToRef(u.scales, u.target);
+          setChainFrames(u.target, u.frames);
+      });
+      enforceConstraints(-1);
+  };
+
+  const cycleSymmetry = () => {
+      const modes = Object.keys(SYMMETRY_MODES) as SymmetryMode[];
+      const next = modes[(modes.indexOf(symmetryMode) + 1) % modes.length];
+      setSymmetryMode(next);
+      showNotice(SYMMETRY_MODES[next]);
+  };
+
+  // --- Constraints ---
+  const getTipPosition = (limbIndex: number) => {
+      const joint1 = creatureRef.current?.getObjectByName(`limb_${limbIndex}_joint_1`);
+      if (!joint1) return null;
+      const points = getChainPoints(getLimbChain(joint1));
+      return points[points.length - 1];
+  };
+
+  const reachTip = (limbIndex: number, target: THREE.Vector3) => {
+      const joint1 = creatureRef.current?.getObjectByName(`limb_${limbIndex}_joint_1`);
+      if (joint1) solveLimbIK(joint1, target, getLimbPole(joint1));
+  };
+
+  // Re-solves every constrained limb after the driver limb moved. Pinned limbs reach back to
+  // their pins first; tip links are then followed outwards from the pins and the driver, each
+  // limb reaching for the tip of the one that has already moved. Two pinned limbs cannot give.
+  const enforceConstraints = (driver: number) => {
+      const constraints = constraintsRef.current;
+      if (!constraints.length) return;
+      const pinned = new Set<number>();
+      constraints.forEach(c => {
+          if (c.type !== 'world') return;
+          pinned.add(c.limb);
+          reachTip(c.limb, new THREE.Vector3().fromArray(c.point));
+      });
+      const settled = new Set([driver]);
+      const rank = (limb: number) => pinned.has(limb) ? 2 : settled.has(limb) ? 1 : 0;
+      let links = constraints.filter((c): c is Extract<PoseConstraint, { type: 'tip' }> => c.type === 'tip');
+      while (links.length) {
+          const link = links.find(c => rank(c.limbA) !== rank(c.limbB)) ?? links[0];
+          links = links.filter(c => c !== link);
+          const [leader, follower] = rank(link.limbB) > rank(link.limbA) ? [link.limbB, link.limbA] : [link.limbA, link.limbB];
+          if (pinned.has(follower)) continue;
+          const tip = getTipPosition(leader);
+          if (tip) reachTip(follower, tip);
+          settled.add(leader);
+          settled.add(follower);
+      }
+  };
+
+  // Links two tips where they meet; called when a tip drag ends snapped onto another tip
+  const linkTips = (limbA: number, limbB: number) => {
+      const linked = constraintsRef.current.some(c => c.type === 'tip' && constraintLimbs(c).includes(limbA) && constraintLimbs(c).includes(limbB));
+      if (linked) return;
+      updateConstraints([...constraintsRef.current, { id: crypto.randomUUID(), type: 'tip', limbA, limbB }]);
+      showNotice('Tips linked');
+  };
+
+  // Pins the active limb's tip where it is now, or releases its pin
+  const togglePin = () => {
+      const joint = getSelectedJoint();
+      if (!joint) return;
+      const limb = joint.userData.limbIndex;
+      const tip = getTipPosition(limb);
+      recordHistory(() => {
+          if (constraints.some(c => c.type === 'world' && c.limb === limb)) {
+              updateConstraints(constraints.filter(c => !(c.type === 'world' && c.limb === limb)));
+          } else if (tip) {
+              updateConstraints([...constraints, { id: crypto.randomUUID(), type: 'world', limb, point: tip.toArray() }]);
+          }
+      });
+  };
+
+  // Drops every link and pin on the active limb
+  const unlinkLimb = () => {
+      const joint = getSelectedJoint();
+      if (joint) recordHistory(() => updateConstraints(constraints.filter(c => !constraintLimbs(c).includes(joint.userData.limbIndex))));
+  };
+
+  // Keeps the overlay markers on their points: linked tips where they meet, pins on their point
+  const updateConstraintMarkers = () => {
+      if (isCanvasModeRef.current || !cameraRef.current) return;
+      const w = window.innerWidth;
+      const h = window.innerHeight;
+      constraintsRef.current.forEach(c => {
+          const marker = constraintMarkerRefs.current[c.id];
+          if (!marker) return;
+          const p = c.type === 'tip' ? getTipPosition(c.limbA) : new THREE.Vector3().fromArray(c.point);
+          marker.style.opacity = p ? '1' : '0';
+          if (!p) return;
+          p.project(cameraRef.current!);
+          marker.setAttribute('transform', `translate(${(p.x * .5 + .5) * w} ${(p.y * -.5 + .5) * h})`);
+      });
+  };
+
+  // World position of the far end of the label's segment, i.e. the knee or the tip.
+  const getLabelAnchor = (creatureGroup: THREE.Group, label: PoseLabel) => {
+      const wrapper = creatureGroup.getObjectByName(`limb_${label.limbIndex}_joint_${label.jointIndex}`);
+      if (!wrapper) return null;
+      const visual = wrapper.children.find(c => c.name === 'visual');
+      const length = wrapper.userData.length * (visual?.scale.y ?? 1);
+      return wrapper.localToWorld(new THREE.Vector3(0, length, 0));
+  };
+
+  // Screen-space placement (window pixels) of every label that is in view and not overlapped.
+  // Shared by the live overlay and exporters that burn labels into their output.
+  const layoutLabels = (creatureGroup: THREE.Group): PlacedLabel[] => {
+    const w = window.innerWidth;
+    const h = window.innerHeight;
     // Calculate center of screen in pixels
     const center = new THREE.Vector3(0,0,0);
     center.project(cameraRef.current!);
-    const cx = (center.x * .5 + .5) * window.innerWidth;
-    const cy = (center.y * -.5 + .5) * window.innerHeight;
+    const cx = (center.x * .5 + .5) * w;
+    const cy = (center.y * -.5 + .5) * h;
 
-    // First pass: collect potential labels
-    const potentials: { id: number; x: number; y: number; z: number; el: HTMLDivElement; width: number; height: number }[] = [];
+    // First pass: collect potential labels with their preferred direction away from the center
+    const potentials: (PlacedLabel & { dirX: number; dirY: number })[] = [];
     
-    INDIVIDUAL_LABELS.forEach((item, index) => {
-        const labelDiv = labelRefs.current[index];
-        if (!labelDiv) return;
+    labelsRef.current.forEach(item => {
+        const anchor = getLabelAnchor(creatureGroup, item);
+        if (!anchor) return;
+        const projV = anchor.project(cameraRef.current!);
         
-        // Default to hidden
-        labelDiv.style.opacity = '0';
-        if (!showLabelsRef.current) return; // Check Ref for current state
-
-        const jointName = `limb_${item.limbIndex}_joint_${item.jointIndex}`;
-        let targetMesh: THREE.Object3D | null = null;
-        creatureGroup.traverse(obj => {
-            if (obj.name === jointName) {
-                const visual = obj.children.find(c => c.name === "visual");
-                if (visual) targetMesh = visual;
-            }
+        // Frustum check
+        if (Math.abs(projV.x) > 0.95 || Math.abs(projV.y) > 0.95) return;
+        const anchorX = (projV.x * .5 + .5) * w;
+        const anchorY = (projV.y * -.5 + .5) * h;
+        const dx = anchorX - cx;
+        const dy = anchorY - cy;
+        const len = Math.sqrt(dx*dx + dy*dy) || 1;
+        const { width, height } = measureLabel(item);
+        potentials.push({
+            label: item,
+            x: anchorX + (dx / len) * LABEL_OFFSET,
+            y: anchorY + (dy / len) * LABEL_OFFSET,
+            z: projV.z,
+            width,
+            height,
+            anchorX,
+            anchorY,
+            displaced: false,
+            dirX: dx / len,
+            dirY: dy / len
         });
-
-        if (targetMesh) {
-            const tempV = new THREE.Vector3();
-            (targetMesh as THREE.Mesh).getWorldPosition(tempV);
-            const projV = tempV.clone().project(cameraRef.current!);
-            
-            // Frustum check
-            if (Math.abs(projV.x) <= 0.95 && Math.abs(projV.y) <= 0.95) {
-                const x = (projV.x * .5 + .5) * window.innerWidth;
-                const y = (projV.y * -.5 + .5) * window.innerHeight;
-
-                // Offset Logic: Push away from center
-                const dx = x - cx;
-                const dy = y - cy;
-                const len = Math.sqrt(dx*dx + dy*dy) || 1;
-                const dirX = dx / len;
-                const dirY = dy / len;
-                
-                // Push out by 50px
-                const finalX = x + dirX * 50;
-                const finalY = y + dirY * 50;
-
-                potentials.push({ 
-                    id: index, 
-                    x: finalX, 
-                    y: finalY, 
-                    z: projV.z, 
-                    el: labelDiv,
-                    width: 80, 
-                    height: 30
-                });
-            }
-        }
     });
-    
-    // Second pass: Bounding Box Overlap detection
-    const visible: typeof potentials = [];
-    
-    // Sort by Z to prioritize foreground labels if needed, or simple first-come
+
+    // Foreground labels get first pick of the free space
     potentials.sort((a, b) => a.z - b.z);
 
+    const inView = (b: LabelBox) => b.x - b.width / 2 >= 0 && b.x + b.width / 2 <= w && b.y - b.height / 2 >= 0 && b.y + b.height / 2 <= h;
+    const placed: PlacedLabel[] = [];
+    const unresolved: typeof potentials = [];
+
+    // Second pass: try the preferred spot, then rotated and farther offsets around the anchor
     for (const p of potentials) {
-        let overlap = false;
-        for (const v of visible) {
-            // Box overlap check with slight margin
-            if (Math.abs(p.x - v.x) < (p.width + v.width)/2 * 0.8 &&
-                Math.abs(p.y - v.y) < (p.height + v.height)/2 * 0.8) {
-                overlap = true;
-                break;
+        const found = LABEL_CANDIDATES.some(({ angle, distance }, i) => {
+            const cos = Math.cos(angle);
+            const sin = Math.sin(angle);
+            const box = {
+                ...p,
+                x: p.anchorX + (p.dirX * cos - p.dirY * sin) * distance,
+                y: p.anchorY + (p.dirX * sin + p.dirY * cos) * distance
+            };
+            if (!inView(box) || placed.some(o => boxesOverlap(box, o))) return false;
+            placed.push({ ...box, displaced: i > 0 });
+            return true;
+        });
+        if (!found) unresolved.push({ ...p });
+    }
+
+    // Third pass: relax the leftovers away from everything else, springing back towards
+    // their anchor, and keep those that end up free and within reach of a leader line
+    for (let iter = 0; iter < LABEL_RELAX_ITERATIONS; iter++) {
+        for (const u of unresolved) {
+            for (const o of [...placed, ...unresolved]) {
+                if (o === u || !boxesOverlap(u, o)) continue;
+                const ox = (u.width + o.width) / 2 + LABEL_GAP - Math.abs(u.x - o.x);
+                const oy = (u.height + o.height) / 2 + LABEL_GAP - Math.abs(u.y - o.y);
+                // Push along the axis of least overlap
+                if (ox < oy) u.x += (u.x >= o.x ? 1 : -1) * ox * 0.5;
+                else u.y += (u.y >= o.y ? 1 : -1) * oy * 0.5;
             }
+            u.x += (u.anchorX + u.dirX * LABEL_OFFSET - u.x) * 0.05;
+            u.y += (u.anchorY + u.dirY * LABEL_OFFSET - u.y) * 0.05;
         }
-        if (!overlap) {
-            visible.push(p);
-            p.el.style.opacity = '1';
-            // Translate -50% -50% to center the label on calculated coords
-            p.el.style.transform = `translate(-50%, -50%) translate(${p.x}px, ${p.y}px)`;
+    }
+    for (const u of unresolved) {
+        const reach = Math.hypot(u.x - u.anchorX, u.y - u.anchorY);
+        if (reach <= LABEL_MAX_LEADER && inView(u) && !placed.some(o => boxesOverlap(u, o))) {
+            placed.push({ ...u, displaced: true });
         }
     }
+    return placed;
+  };
+
+  const updateLabels = (creatureGroup: THREE.Group) => {
+    // Check refs to avoid stale closures in animation loop
+    if (isCanvasModeRef.current) return;
+
+    const placed = showLabelsRef.current ? layoutLabels(creatureGroup) : [];
+    labelsRef.current.forEach(item => {
+        const labelDiv = labelRefs.current[item.id];
+        const leader = leaderRefs.current[item.id];
+        const p = placed.find(l => l.label.id === item.id);
+        if (labelDiv) {
+            labelDiv.style.opacity = p ? '1' : '0';
+            // Translate -50% -50% to center the label on calculated coords
+            if (p) labelDiv.style.transform = `translate(-50%, -50%) translate(${p.x}px, ${p.y}px)`;
+        }
+        if (leader) {
+            leader.style.opacity = p?.displaced ? '1' : '0';
+            if (p?.displaced) leader.setAttribute('d', leaderPath(p));
+        }
+    });
   };
 
   const applyPoseToRef = (pose: PoseData, group: THREE.Group) => {
@@ -512,29 +2327,324 @@ const App = () => {
       });
   };
 
+  const extractSegmentScales = (group: THREE.Group): SegmentScales => {
+      const scales: SegmentScales = {};
+      group.traverse((obj) => {
+          if (obj.userData.isJoint && obj.userData.id) {
+              const visual = obj.children.find(c => c.name === 'visual');
+              if (visual) scales[obj.userData.id] = Number(visual.scale.y.toFixed(3));
+          }
+      });
+      return scales;
+  };
+
+  // Stretches each segment along its length and moves the next joint to the new knee position.
+  // Hitboxes parented to the visual mesh follow the scale automatically.
+  const applySegmentScalesToRef = (scales: SegmentScales, group: THREE.Object3D) => {
+      group.traverse((obj) => {
+          if (!obj.userData.isJoint || !obj.userData.id) return;
+          const r = scales[obj.userData.id] ?? 1;
+          const length = obj.userData.length;
+          const visual = obj.children.find(c => c.name === 'visual');
+          if (visual) {
+              visual.scale.set(1, r, 1);
+              visual.position.y = (length * r) / 2;
+          }
+          const next = obj.children.find(c => c.userData.isJoint);
+          if (next) next.position.y = length * r;
+      });
+  };
+
+  // --- Undo/Redo ---
+  const captureSnapshot = (): PoseSnapshot | null => {
+      if (!creatureRef.current) return null;
+      return {
+          pose: extractPose(creatureRef.current),
+          scales: extractSegmentScales(creatureRef.current),
+          body: creatureRef.current.quaternion.toArray(),
+          constraints: constraintsRef.current,
+          rig: rigRef.current
+      };
+  };
+
+  const applySnapshot = (snapshot: PoseSnapshot) => {
+      if (!creatureRef.current) return;
+      if (snapshot.rig !== rigRef.current) rebuildRig(snapshot.rig);
+      applyPoseToRef(snapshot.pose, creatureRef.current);
+      applySegmentScalesToRef(snapshot.scales, creatureRef.current);
+      creatureRef.current.quaternion.fromArray(snapshot.body);
+      if (snapshot.constraints !== constraintsRef.current) updateConstraints(snapshot.constraints);
+  };
+
+  // --- Workspace Cache ---
+  const saveWorkspace = () => {
+      const creature = creatureRef.current;
+      const camera = cameraRef.current;
+      const controls = controlsRef.current;
+      if (!creature || !camera || !controls) return;
+      const cache: WorkspaceCache = {
+          version: CACHE_VERSION,
+          pose: extractPose(creature),
+          scales: extractSegmentScales(creature),
+          camera: { position: camera.position.toArray(), zoom: camera.zoom, target: controls.target.toArray() },
+          settings: settingsRef.current,
+          labels: labelsRef.current,
+          rig: rigRef.current,
+          body: creature.quaternion.toArray(),
+          constraints: constraintsRef.current
+      };
+      try {
+          localStorage.setItem(CACHE_KEY, JSON.stringify(cache));
+      } catch (e) {
+          console.error(e);
+      }
+  };
+
+  // Debounced; safe to call from the animation loop and control listeners.
+  const scheduleCacheSave = () => {
+      if (cacheSaveTimerRef.current) clearTimeout(cacheSaveTimerRef.current);
+      cacheSaveTimerRef.current = setTimeout(() => {
+          cacheSaveTimerRef.current = null;
+          saveWorkspace();
+      }, CACHE_SAVE_DELAY);
+  };
+
+  useEffect(() => {
+      settingsRef.current = { showLabels, snapEnabled, orbitEnabled, grabEnabled, symmetry: symmetryMode, gizmoEnabled, refineSketch, sketchOverlay };
+      scheduleCacheSave();
+  }, [showLabels, snapEnabled, orbitEnabled, grabEnabled, symmetryMode, gizmoEnabled, refineSketch, sketchOverlay]);
+
+  useEffect(() => {
+      // Flush a pending save when the page goes away
+      const flush = () => {
+          if (!cacheSaveTimerRef.current) return;
+          clearTimeout(cacheSaveTimerRef.current);
+          cacheSaveTimerRef.current = null;
+          saveWorkspace();
+      };
+      const handleVisibility = () => { if (document.visibilityState === 'hidden') flush(); };
+      window.addEventListener('pagehide', flush);
+      document.addEventListener('visibilitychange', handleVisibility);
+      return () => {
+          window.removeEventListener('pagehide', flush);
+          document.removeEventListener('visibilitychange', handleVisibility);
+      };
+  }, []);
+
+  const syncHistoryState = () => {
+      const { past, future } = historyRef.current;
+      setHistoryState({ canUndo: past.length > 0, canRedo: future.length > 0 });
+  };
+
+  // Call at the start of an operation that changes the pose; pair with commitHistoryStep.
+  const beginHistoryStep = () => {
+      pendingSnapshotRef.current = captureSnapshot();
+  };
+
+  const commitHistoryStep = () => {
+      const before = pendingSnapshotRef.current;
+      pendingSnapshotRef.current = null;
+      const after = captureSnapshot();
+      if (!before || !after || JSON.stringify(before) === JSON.stringify(after)) return;
+      const history = historyRef.current;
+      history.past.push(before);
+      if (history.past.length > MAX_HISTORY) history.past.shift();
+      history.future = [];
+      syncHistoryState();
+      scheduleCacheSave();
+  };
+
+  const recordHistory = (mutate: () => void) => {
+      beginHistoryStep();
+      mutate();
+      commitHistoryStep();
+  };
+
+  const undo = () => {
+      const history = historyRef.current;
+      const previous = history.past.pop();
+      const current = captureSnapshot();
+      if (!previous || !current) return;
+      history.future.push(current);
+      applySnapshot(previous);
+      syncHistoryState();
+      scheduleCacheSave();
+  };
+
+  const redo = () => {
+      const history = historyRef.current;
+      const next = history.future.pop();
+      const current = captureSnapshot();
+      if (!next || !current) return;
+      history.past.push(current);
+      applySnapshot(next);
+      syncHistoryState();
+      scheduleCacheSave();
+  };
+
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+          // Text fields keep their own undo, in the sketch canvas's panels too
+          const target = e.target as HTMLElement | null;
+          if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+          if (isCanvasModeRef.current) {
+              // The sketch canvas undoes its last stroke
+              if (!e.shiftKey) {
+                  e.preventDefault();
+                  undoStroke();
+              }
+              return;
+          }
+          e.preventDefault();
+          if (e.shiftKey) redo();
+          else undo();
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // --- Timeline Playback ---
+  const getTimelineDuration = () => {
+      const frames = keyframesRef.current;
+      return frames.length ? frames[frames.length - 1].time : 0;
+  };
+
+  // Poses the creature as the timeline is at time. Labels are left alone for exports, which
+  // burn in the labels on screen.
+  const applyTimelineSample = (time: number, withLabels: boolean) => {
+      const sample = sampleTimeline(keyframesRef.current, time);
+      const creature = creatureRef.current;
+      if (!sample || !creature) return;
+      applyPoseToRef(sample.pose, creature);
+      if (sample.scales) applySegmentScalesToRef(sample.scales, creature);
+      if (sample.body) creature.quaternion.fromArray(sample.body);
+      // Set only when the keyframe changes; this runs every frame during playback
+      if (withLabels && sample.labels && sample.labels !== labelsRef.current) setLabels(sample.labels);
+  };
+
+  const showTimelineTime = (time: number) => {
+      playbackRef.current.time = time;
+      applyTimelineSample(time, true);
+      if (scrubRef.current) scrubRef.current.value = String(time);
+      if (timeReadoutRef.current) timeReadoutRef.current.textContent = `${time.toFixed(2)}s`;
+  };
+
+  const stopPlayback = () => {
+      playbackRef.current.playing = false;
+      setIsPlaying(false);
+      scheduleCacheSave();
+  };
+
+  // Called from the animate loop, so it must only read refs.
+  const advancePlayback = (now: number) => {
+      const playback = playbackRef.current;
+      if (!playback.playing) return;
+      const duration = getTimelineDuration();
+      if (keyframesRef.current.length < 2 || duration <= 0) {
+          stopPlayback();
+          return;
+      }
+      playback.clock += (now - playback.lastFrame) / 1000;
+      playback.lastFrame = now;
+
+      const mode = playbackModeRef.current;
+      let time: number;
+      if (mode === 'loop') {
+          playback.clock %= duration;
+          time = playback.clock;
+      } else if (mode === 'pingpong') {
+          playback.clock %= duration * 2;
+          time = duration - Math.abs(duration - playback.clock);
+      } else {
+          if (playback.clock >= duration) {
+              playback.clock = duration;
+              stopPlayback();
+          }
+          time = playback.clock;
+      }
+      showTimelineTime(time);
+  };
+
+  const togglePlayback = () => {
+      const playback = playbackRef.current;
+      if (playback.playing) {
+          stopPlayback();
+          return;
+      }
+      const duration = getTimelineDuration();
+      if (keyframesRef.current.length < 2 || duration <= 0) return;
+      if (playbackModeRef.current === 'once' && playback.time >= duration) playback.time = 0;
+      playback.clock = playback.time;
+      playback.lastFrame = performance.now();
+      playback.playing = true;
+      setIsPlaying(true);
+  };
+
+  const scrubTimeline = (time: number) => {
+      stopPlayback();
+      showTimelineTime(time);
+  };
+
+  const sortKeyframes = (frames: Keyframe[]) => [...frames].sort((a, b) => a.time - b.time);
+
+  const addKeyframe = (saved: SavedPose) => {
+      const id = crypto.randomUUID();
+      setKeyframes(prev => [...prev, {
+          id,
+          poseId: saved.id,
+          name: saved.name,
+          pose: saved.pose,
+          scales: saved.scales,
+          body: saved.body,
+          labels: saved.labels,
+          thumbnail: saved.thumbnail,
+          time: prev.length ? prev[prev.length - 1].time + KEYFRAME_GAP : 0,
+          easing: 'easeInOut'
+      }]);
+      setSelectedKeyframeId(id);
+  };
+
+  const updateKeyframe = (id: string, patch: Partial<Keyframe>) => {
+      setKeyframes(prev => sortKeyframes(prev.map(k => k.id === id ? { ...k, ...patch } : k)));
+  };
+
+  const removeKeyframe = (id: string) => {
+      setKeyframes(prev => prev.filter(k => k.id !== id));
+      setSelectedKeyframeId(null);
+  };
+
   const generateRandomPose = () => {
      const strategies = [
          () => PRESET_POSE, 
          () => PRESET_POSE_2,
          ...savedPoses.map(p => () => p.pose),
          () => {
-             const j1 = { x: (Math.random()-0.5)*3, y: (Math.random()-0.5)*2, z: (Math.random()-0.5)*2 };
-             const j2 = { x: (Math.random()-0.5)*3, y: (Math.random()-0.5)*2, z: (Math.random()-0.5)*2 };
+             // One random rotation per segment depth, mirrored on the lower limbs
+             const depth = Math.max(...rigRef.current.limbs.map(l => l.segments.length));
+             const joints = Array.from({ length: depth }, () => ({ x: (Math.random()-0.5)*3, y: (Math.random()-0.5)*2, z: (Math.random()-0.5)*2 }));
              const pose: PoseData = {};
-             for(let i=0; i<4; i++) { pose[`limb_${i}_joint_1`] = j1; pose[`limb_${i}_joint_2`] = j2; }
-             for(let i=4; i<8; i++) { pose[`limb_${i}_joint_1`] = { x: -j1.x, y: j1.y, z: j1.z }; pose[`limb_${i}_joint_2`] = { x: -j2.x, y: j2.y, z: j2.z }; }
+             rigRef.current.limbs.forEach((limb, i) => limb.segments.forEach((_, s) => {
+                 const j = joints[s];
+                 pose[`limb_${i}_joint_${s + 1}`] = limb.elevation < 0 ? { x: -j.x, y: j.y, z: j.z } : j;
+             }));
              return pose;
          }
      ];
      const strategy = strategies[Math.floor(Math.random() * strategies.length)];
-     if (creatureRef.current) applyPoseToRef(strategy(), creatureRef.current);
+     if (creatureRef.current) recordHistory(() => {
+         applyPoseToRef(strategy(), creatureRef.current!);
+         updateConstraints([]);
+     });
   };
 
+  // Snaps the selected joints, or every joint when nothing is selected
   const snapToGrid = () => {
     if (!creatureRef.current) return;
     const STEP = SNAP_ANGLE;
+    const selected = getSelectedJoints();
     creatureRef.current.traverse((obj) => {
-        if (obj.userData.isJoint) {
+        if (obj.userData.isJoint && (!selected.length || selected.includes(obj))) {
             const { x, y, z } = obj.rotation;
             const snap = (val: number) => Math.round(val / STEP) * STEP;
             obj.rotation.set(snap(x), snap(y), snap(z));
@@ -542,8 +2652,14 @@ const App = () => {
     });
   };
 
+  // A snap setting restored from the cache should not rewrite the restored pose
+  const skipInitialSnapRef = useRef(true);
   useEffect(() => {
-    if (snapEnabled) snapToGrid();
+    if (skipInitialSnapRef.current) {
+        skipInitialSnapRef.current = false;
+        return;
+    }
+    if (snapEnabled) recordHistory(snapToGrid);
   }, [snapEnabled]);
 
   const saveSnapshot = () => {
@@ -556,6 +2672,274 @@ const App = () => {
       }
   }
   
+  // Draws the current label layout onto an export frame. scale maps window pixels to frame pixels.
+  const drawLabelsOnto = (ctx: CanvasRenderingContext2D, scale: number) => {
+      if (!creatureRef.current) return;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      const ink = theme === 'dark' ? 'rgba(255,255,255,0.8)' : 'rgba(0,0,0,0.8)';
+      layoutLabels(creatureRef.current).forEach(p => {
+          const { label, x, y } = p;
+          ctx.font = `${label.size * scale}px ${LABEL_FONTS[label.font].css}`;
+          ctx.fillStyle = label.color ?? ink;
+          ctx.fillText(label.text, x * scale, y * scale);
+          if (p.displaced) {
+              ctx.save();
+              ctx.scale(scale, scale);
+              ctx.strokeStyle = label.color ?? ink;
+              ctx.lineWidth = 1.5;
+              ctx.lineCap = 'round';
+              ctx.globalAlpha = 0.6;
+              ctx.stroke(new Path2D(leaderPath(p)));
+              ctx.restore();
+          }
+      });
+  };
+
+  // --- Animated Export ---
+  // Renders either a 360° camera orbit or the keyframe timeline frame by frame into a
+  // 2D canvas, then encodes it as WebM (MediaRecorder) or GIF (gifenc).
+  const exportAnimation = async () => {
+      const renderer = rendererRef.current;
+      const scene = sceneRef.current;
+      const camera = cameraRef.current;
+      const controls = controlsRef.current;
+      const creature = creatureRef.current;
+      if (!renderer || !scene || !camera || !controls || !creature) return;
+
+      const settings = exportSettings;
+      const timelineLength = getTimelineDuration();
+      if (settings.source === 'timeline' && timelineLength <= 0) {
+          showNotice("Add keyframes to the timeline before exporting it", true);
+          return;
+      }
+      const frameCount = Math.max(1, Math.round(settings.fps * settings.duration));
+      const width = settings.width || window.innerWidth;
+      const height = Math.round(width * window.innerHeight / window.innerWidth);
+      const labelScale = width / window.innerWidth;
+
+      stopPlayback();
+      setExportProgress(0);
+
+      const poseBefore = captureSnapshot();
+      const cameraBefore = { position: camera.position.clone(), quaternion: camera.quaternion.clone() };
+      const orbitOffset = new THREE.Vector3().subVectors(camera.position, controls.target);
+      const pixelRatio = renderer.getPixelRatio();
+      const background = scene.background;
+
+      const frameCanvas = document.createElement('canvas');
+      frameCanvas.width = width;
+      frameCanvas.height = height;
+      const ctx = frameCanvas.getContext('2d', { willReadFrequently: settings.format === 'gif' })!;
+
+      const renderFrame = (i: number) => {
+          if (settings.source === 'turntable') {
+              // i / frameCount so the loop does not repeat its first frame
+              const angle = (i / frameCount) * Math.PI * 2;
+              camera.position.copy(controls.target).add(orbitOffset.clone().applyAxisAngle(new THREE.Vector3(0, 1, 0), angle));
+              camera.lookAt(controls.target);
+          } else {
+              const t = frameCount > 1 ? i / (frameCount - 1) : 0;
+              applyTimelineSample(t * timelineLength, false);
+          }
+          renderer.render(scene, camera);
+          ctx.clearRect(0, 0, width, height);
+          ctx.drawImage(renderer.domElement, 0, 0, width, height);
+          if (settings.burnLabels) drawLabelsOnto(ctx, labelScale);
+      };
+
+      controls.enabled = false;
+      renderer.setPixelRatio(1);
+      renderer.setSize(width, height, false);
+      if (settings.transparent) scene.background = null;
+
+      try {
+          let blob: Blob;
+          if (settings.format === 'gif') {
+              const gif = GIFEncoder();
+              const delay = 1000 / settings.fps;
+              for (let i = 0; i < frameCount; i++) {
+                  renderFrame(i);
+                  const { data } = ctx.getImageData(0, 0, width, height);
+                  if (settings.transparent) {
+                      const palette = quantize(data, 256, { format: 'rgba4444', oneBitAlpha: true });
+                      const index = applyPalette(data, palette, 'rgba4444');
+                      const transparentIndex = palette.findIndex((c: number[]) => c[3] === 0);
+                      gif.writeFrame(index, width, height, { palette, delay, transparent: transparentIndex >= 0, transparentIndex: Math.max(0, transparentIndex), dispose: 2 });
+                  } else {
+                      const palette = quantize(data, 256);
+                      gif.writeFrame(applyPalette(data, palette), width, height, { palette, delay });
+                  }
+                  setExportProgress((i + 1) / frameCount);
+                  await nextFrame();
+              }
+              gif.finish();
+              blob = new Blob([gif.bytes()], { type: 'image/gif' });
+          } else {
+              const mimeType = WEBM_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+              if (!mimeType) throw new Error("WebM recording is not supported in this browser");
+              const stream = frameCanvas.captureStream(0);
+              const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+              const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+              const chunks: Blob[] = [];
+              recorder.ondataavailable = e => { if (e.data.size) chunks.push(e.data); };
+              const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+              recorder.start();
+              // MediaRecorder timestamps frames in real time, so pace them at the target rate
+              for (let i = 0; i < frameCount; i++) {
+                  renderFrame(i);
+                  track.requestFrame();
+                  setExportProgress((i + 1) / frameCount);
+                  await wait(1000 / settings.fps);
+              }
+              recorder.stop();
+              await stopped;
+              blob = new Blob(chunks, { type: 'video/webm' });
+          }
+          downloadBlob(blob, `mento-${settings.source}-${Date.now()}.${settings.format}`);
+      } catch (err) {
+          console.error(err);
+          showNotice(`Export failed: ${err instanceof Error ? err.message : String(err)}`, true);
+      } finally {
+          scene.background = background;
+          renderer.setPixelRatio(pixelRatio);
+          renderer.setSize(window.innerWidth, window.innerHeight);
+          camera.position.copy(cameraBefore.position);
+          camera.quaternion.copy(cameraBefore.quaternion);
+          if (poseBefore) applySnapshot(poseBefore);
+          controls.enabled = orbitEnabled;
+          setExportProgress(null);
+      }
+  };
+
+  // --- glTF Export ---
+  // Exports a copy of the creature with its limb_N_joint_M hierarchy intact and the invisible
+  // hitboxes removed. Saved poses (and the baked timeline) become animation clips, keeping only
+  // the joints this rig has; poses that share none with it are left out.
+  const exportModel = async () => {
+      const creature = creatureRef.current;
+      if (!creature) return;
+
+      const exportRoot = creature.clone(true);
+      const hitboxes: THREE.Object3D[] = [];
+      exportRoot.traverse(obj => {
+          if (obj.userData.isHitbox) hitboxes.push(obj);
+          else if (obj.name === 'visual') (obj as THREE.Mesh).material = limbMaterialRef.current;
+      });
+      hitboxes.forEach(obj => obj.removeFromParent());
+
+      const jointIds = new Set(getJointIds(exportRoot));
+      const onRig = (pose: PoseData): PoseData => Object.fromEntries(Object.entries(pose).filter(([id]) => jointIds.has(id)));
+      const animations: THREE.AnimationClip[] = [];
+      if (modelExport.includeClips) {
+          allPoses.forEach(saved => {
+              const pose = onRig(saved.pose);
+              if (Object.keys(pose).length) animations.push(createPoseClip(saved.name, [{ time: 0, pose }]));
+          });
+          const frames = keyframesRef.current;
+          const duration = getTimelineDuration();
+          if (frames.length >= 2 && duration > 0) {
+              const samples = Math.ceil(duration * CLIP_SAMPLE_RATE);
+              const baked = Array.from({ length: samples + 1 }, (_, i) => {
+                  const time = Math.min(duration, i / CLIP_SAMPLE_RATE);
+                  return { time, pose: onRig(sampleTimeline(frames, time)!.pose) };
+              });
+              if (Object.keys(baked[0].pose).length) animations.push(createPoseClip("Timeline", baked));
+          }
+      }
+
+      try {
+          const result = await new GLTFExporter().parseAsync(exportRoot, { binary: modelExport.binary, animations });
+          const blob = modelExport.binary
+              ? new Blob([result as ArrayBuffer], { type: 'model/gltf-binary' })
+              : new Blob([JSON.stringify(result, null, 2)], { type: 'model/gltf+json' });
+          downloadBlob(blob, `mento-pose-${Date.now()}.${modelExport.binary ? 'glb' : 'gltf'}`);
+      } catch (err) {
+          console.error(err);
+          showNotice(`Export failed: ${err instanceof Error ? err.message : String(err)}`, true);
+      }
+  };
+
+  // --- Vector Export ---
+  // Projects every segment through the current camera into window-pixel SVG coordinates:
+  // inner segments as round-capped strokes, the cone-shaped last segments as tapered triangles.
+  const buildSvg = () => {
+      const camera = cameraRef.current;
+      const creature = creatureRef.current;
+      if (!camera || !creature) return null;
+      creature.updateMatrixWorld(true);
+
+      const w = window.innerWidth;
+      const h = window.innerHeight;
+      const pxPerUnit = (w * camera.zoom) / (camera.right - camera.left);
+      const fmt = (n: number) => n.toFixed(2);
+      const toScreen = (obj: THREE.Object3D, y: number) => {
+          const p = obj.localToWorld(new THREE.Vector3(0, y, 0)).project(camera);
+          return { x: (p.x * .5 + .5) * w, y: (p.y * -.5 + .5) * h };
+      };
+
+      // Dark-theme ink would vanish on a white page
+      const ink = theme === 'dark' && vectorBackground !== 'white' ? '#F2F2F7' : '#111111';
+      const paper = theme === 'dark' ? '#000000' : '#F2F2F7';
+      const segments: string[] = [];
+      creature.traverse(obj => {
+          if (!obj.userData.isJoint) return;
+          const visual = obj.children.find(c => c.name === 'visual');
+          if (!visual) return;
+          const { length, thickness, isLast } = obj.userData;
+          const a = toScreen(obj, 0);
+          const b = toScreen(obj, length * visual.scale.y);
+          if (!isLast) {
+              segments.push(`<line x1="${fmt(a.x)}" y1="${fmt(a.y)}" x2="${fmt(b.x)}" y2="${fmt(b.y)}" stroke-width="${fmt(thickness * pxPerUnit)}"/>`);
+          } else {
+              const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+              const r = thickness * 0.6 * pxPerUnit;
+              const nx = (-(b.y - a.y) / len) * r;
+              const ny = ((b.x - a.x) / len) * r;
+              segments.push(`<polygon points="${fmt(a.x + nx)},${fmt(a.y + ny)} ${fmt(b.x)},${fmt(b.y)} ${fmt(a.x - nx)},${fmt(a.y - ny)}" stroke="none"/>`);
+          }
+      });
+
+      const placed = showLabels ? layoutLabels(creature) : [];
+      const texts = placed.map(({ label, x, y }) =>
+          `<text x="${fmt(x)}" y="${fmt(y)}" font-family="${escapeXml(LABEL_FONTS[label.font].css)}" font-size="${label.size}"${label.color ? ` fill="${label.color}" fill-opacity="1"` : ''}>${escapeXml(label.text)}</text>`
+      );
+      const leaders = placed.filter(p => p.displaced).map(p =>
+          `<path d="${leaderPath(p)}"${p.label.color ? ` stroke="${p.label.color}"` : ''}/>`
+      );
+
+      return [
+          `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">`,
+          vectorBackground === 'none' ? '' : `<rect width="100%" height="100%" fill="${vectorBackground === 'white' ? '#FFFFFF' : paper}"/>`,
+          `<g stroke="${ink}" fill="${ink}" stroke-linecap="round">${segments.join('')}</g>`,
+          `<g fill="none" stroke="${ink}" stroke-opacity="0.5" stroke-width="1.5" stroke-linecap="round">${leaders.join('')}</g>`,
+          `<g fill="${ink}" fill-opacity="0.8" text-anchor="middle" dominant-baseline="middle">${texts.join('')}</g>`,
+          `</svg>`
+      ].join('\n');
+  };
+
+  const exportSvg = () => {
+      const svg = buildSvg();
+      if (svg) downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `mento-pose-${Date.now()}.svg`);
+  };
+
+  // PDF goes through the browser's print dialog ("Save as PDF") with the page size preset applied.
+  const printPdf = () => {
+      const svg = buildSvg();
+      if (!svg) return;
+      const page = PAGE_SIZES[pageSize];
+      const landscape = window.innerWidth > window.innerHeight;
+      const [pw, ph] = landscape ? [page.height, page.width] : [page.width, page.height];
+      const win = window.open('', '_blank');
+      if (!win) return;
+      win.document.write(`<!DOCTYPE html><html><head><title>Mento 3D</title>
+<link href="https://fonts.googleapis.com/css2?family=Reenie+Beanie&display=swap" rel="stylesheet">
+<style>@page { size: ${pw}mm ${ph}mm; margin: 10mm; } html, body { margin: 0; height: 100%; } svg { display: block; width: 100%; height: 100vh; }</style>
+</head><body>${svg}</body></html>`);
+      win.document.close();
+      win.addEventListener('load', () => win.document.fonts.ready.then(() => win.print()));
+  };
+
   const extractPose = (group: THREE.Group): PoseData => {
       const poseData: PoseData = {};
       group.traverse((obj) => {
@@ -596,6 +2980,8 @@ const App = () => {
 
   // --- Interaction Logic ---
   const handlePointerDown = (e: React.PointerEvent) => {
+    // The gizmo handles its own pointer events on the canvas first
+    if (gizmoRef.current?.dragging) return;
     const rect = rendererRef.current!.domElement.getBoundingClientRect();
     mouseRef.current.x = ((e.clientX - rect.left) / rect.width) * 2 - 1;
     mouseRef.current.y = -((e.clientY - rect.top) / rect.height) * 2 + 1;
@@ -611,297 +2997,681 @@ const App = () => {
     lastTapRef.current = currentTime;
     previousPointerRef.current = { x: e.clientX, y: e.clientY };
 
-    if (hit && grabEnabled) {
+    const startDrag = () => {
         e.stopPropagation();
         if (controlsRef.current) controlsRef.current.enabled = false;
         isDraggingRef.current = true;
-        
+        if (playbackRef.current.playing) stopPlayback();
+        beginHistoryStep();
+    };
+
+    if (isBodyMode) {
+        startDrag();
+        dragModeRef.current = 'body_rotate';
+    } else if (hit && grabEnabled && e.shiftKey) {
+        // Shift-click toggles a joint in the selection without moving it
+        const type = hit.object.userData.type;
+        selectJoint((type === 'tip' || type === 'knee' ? hit.object.parent : hit.object) as THREE.Mesh, true);
+    } else if (hit && grabEnabled) {
+        startDrag();
+
         const type = hit.object.userData.type; 
         const limbIndex = hit.object.userData.limbIndex;
         const joint1 = creatureRef.current!.getObjectByName(`limb_${limbIndex}_joint_1`);
-        const joint2 = creatureRef.current!.getObjectByName(`limb_${limbIndex}_joint_2`);
         
         const hitPoint = hit.point.clone();
         const camDir = new THREE.Vector3();
         cameraRef.current!.getWorldDirection(camDir);
         dragPlaneRef.current.setFromNormalAndCoplanarPoint(camDir, hitPoint);
         
+        // Knee and tip hitboxes sit inside the visual mesh of the segment they end
         if (type === 'tip') {
              dragModeRef.current = 'ik_drag';
              dragTargetRef.current = joint1 as THREE.Object3D; 
-             selectJoint((joint2 as any).children.find((c: any) => c.name==='visual') || joint2 as THREE.Mesh);
+             ikPoleRef.current = getLimbPole(joint1!);
+             selectJoint(hit.object.parent as THREE.Mesh);
         } else if (type === 'knee') {
-             dragModeRef.current = 'joint_rotate';
-             dragTargetRef.current = joint1 as THREE.Object3D;
-             selectJoint((joint1 as any).children.find((c: any) => c.name==='visual') || joint1 as THREE.Mesh);
+             // With the gizmo on, clicking a segment only selects it for the gizmo
+             dragModeRef.current = gizmoEnabled ? null : 'joint_rotate';
+             dragTargetRef.current = hit.object.parent!.parent as THREE.Object3D;
+             selectJoint(hit.object.parent as THREE.Mesh);
         } else {
-             dragModeRef.current = 'joint_rotate';
+             dragModeRef.current = gizmoEnabled ? null : 'joint_rotate';
              const wrapper = hit.object.parent!.userData.isJoint ? hit.object.parent : hit.object.parent!.parent;
              dragTargetRef.current = wrapper as THREE.Object3D;
              selectJoint(hit.object as THREE.Mesh);
         }
+    } else if (e.shiftKey && grabEnabled) {
+        // Shift-drag on empty space draws a selection box that replaces the selection, or adds
+        // to it with Ctrl/Cmd held too
+        if (controlsRef.current) controlsRef.current.enabled = false;
+        dragModeRef.current = 'box_select';
+        boxSelectRef.current = { x0: e.clientX, y0: e.clientY, x1: e.clientX, y1: e.clientY, additive: e.ctrlKey || e.metaKey };
+        setSelectionBox(boxSelectRef.current);
     } else {
-        if (selectedMeshRef.current) {
-            selectedMeshRef.current.material = limbMaterialRef.current;
-            selectedMeshRef.current = null;
-            setSelectedId(null);
+        clearSelection();
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+      if (dragModeRef.current === 'box_select' && boxSelectRef.current) {
+          boxSelectRef.current = { ...boxSelectRef.current, x1: e.clientX, y1: e.clientY };
+          setSelectionBox(boxSelectRef.current);
+          return;
+      }
+      if (dragModeRef.current === 'body_rotate' && creatureRef.current && cameraRef.current) {
+          // Turn the whole creature about the camera's up and right axes
+          const dx = e.clientX - previousPointerRef.current.x;
+          const dy = e.clientY - previousPointerRef.current.y;
+          previousPointerRef.current = { x: e.clientX, y: e.clientY };
+          const up = new THREE.Vector3(0, 1, 0).applyQuaternion(cameraRef.current.quaternion);
+          const right = new THREE.Vector3(1, 0, 0).applyQuaternion(cameraRef.current.quaternion);
+          const turn = new THREE.Quaternion().setFromAxisAngle(up, dx * BODY_ROTATE_SPEED)
+              .multiply(new THREE.Quaternion().setFromAxisAngle(right, dy * BODY_ROTATE_SPEED));
+          creatureRef.current.quaternion.premultiply(turn);
+          enforceConstraints(-1);
+          return;
+      }
+      if (!isDraggingRef.current || !dragTargetRef.current) return;
+      const rect = rendererRef.current!.domElement.getBoundingClientRect();
+      const nx = ((e.clientX - rect.left) / rect.width) * 2 - 1;
+      const ny = -((e.clientY - rect.top) / rect.height) * 2 + 1;
+      raycasterRef.current.setFromCamera(new THREE.Vector2(nx, ny), cameraRef.current!);
+      const ray = raycasterRef.current.ray;
+      const targetPoint = new THREE.Vector3();
+      if (!ray.intersectPlane(dragPlaneRef.current, targetPoint)) return;
+
+      if (dragModeRef.current === 'ik_drag') {
+          const joint1 = dragTargetRef.current;
+          const limbIndex = joint1.userData.limbIndex;
+          let snapPos = targetPoint.clone();
+          let minDist = SNAP_THRESHOLD;
+          snapLimbRef.current = null;
+          // Tips already linked to this one travel with it, so they are not snap targets
+          const linked = constraintsRef.current.filter(c => c.type === 'tip' && constraintLimbs(c).includes(limbIndex)).flatMap(constraintLimbs);
+          creatureRef.current!.traverse(obj => {
+              if (obj.userData.isHitbox && obj.userData.type === 'tip') {
+                  if (obj.userData.limbIndex === limbIndex || linked.includes(obj.userData.limbIndex)) return;
+                  const otherTipWorld = new THREE.Vector3();
+                  obj.getWorldPosition(otherTipWorld);
+                  const d = otherTipWorld.distanceTo(targetPoint);
+                  if (d < minDist) { minDist = d; snapPos.copy(otherTipWorld); snapLimbRef.current = obj.userData.limbIndex; }
+              }
+          });
+          const finalTarget = snapLimbRef.current !== null ? snapPos : targetPoint;
+          solveLimbIK(joint1, finalTarget, ikPoleRef.current);
+
+          // A pinned tip being dragged carries its pin along
+          const tip = getTipPosition(limbIndex);
+          if (tip && constraintsRef.current.some(c => c.type === 'world' && c.limb === limbIndex)) {
+              constraintsRef.current = constraintsRef.current.map(c => c.type === 'world' && c.limb === limbIndex ? { ...c, point: tip.toArray() } : c);
+          }
+
+      } else if (dragModeRef.current === 'joint_rotate') {
+          const object = dragTargetRef.current;
+          const before = object.quaternion.clone();
+          const parent = object.parent!;
+          const localPoint = targetPoint.clone();
+          parent.worldToLocal(localPoint);
+          const dir = localPoint.normalize();
+          const q = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0,1,0), dir);
+          
+          if (snapEnabled) {
+              const euler = new THREE.Euler().setFromQuaternion(q);
+              const STEP = SNAP_ANGLE;
+              euler.x = Math.round(euler.x / STEP) * STEP;
+              euler.y = Math.round(euler.y / STEP) * STEP;
+              euler.z = Math.round(euler.z / STEP) * STEP;
+              object.quaternion.setFromEuler(euler);
+          } else {
+              object.quaternion.copy(q);
+          }
+
+          turnSelectionWith(object, before);
+      }
+      applySymmetry(dragTargetRef.current.userData.limbIndex);
+      enforceConstraints(dragTargetRef.current.userData.limbIndex);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+      if (dragModeRef.current === 'box_select' && boxSelectRef.current) {
+          selectInBox(boxSelectRef.current, boxSelectRef.current.additive);
+          boxSelectRef.current = null;
+          setSelectionBox(null);
+      }
+      if (dragModeRef.current === 'ik_drag' && dragTargetRef.current) {
+          const limbIndex = dragTargetRef.current.userData.limbIndex;
+          if (snapLimbRef.current !== null) linkTips(limbIndex, snapLimbRef.current);
+          else if (constraintsRef.current !== constraints) updateConstraints(constraintsRef.current);
+          snapLimbRef.current = null;
+      }
+      if (isDraggingRef.current) commitHistoryStep();
+      isDraggingRef.current = false;
+      dragTargetRef.current = null;
+      dragModeRef.current = null;
+      if (controlsRef.current) controlsRef.current.enabled = orbitEnabled;
+  };
+  
+  useEffect(() => { if (controlsRef.current) controlsRef.current.enabled = orbitEnabled; }, [orbitEnabled]);
+
+  // --- Selection ---
+  const setSelection = (meshes: THREE.Mesh[], active: THREE.Mesh | null) => {
+      selectionRef.current.forEach(m => { m.material = limbMaterialRef.current; });
+      selectionRef.current = meshes;
+      meshes.forEach(m => { m.material = highlightMaterialRef.current; });
+      selectedMeshRef.current = active;
+      setSelectedId(active?.parent?.userData.isJoint ? active.parent.userData.id : null);
+      setSelectedCount(meshes.length);
+  };
+
+  const clearSelection = () => setSelection([], null);
+
+  // Plain clicks select one joint, or make a joint of the current group the active one so the
+  // whole group can be dragged. Additive clicks toggle the joint in or out of the group.
+  const selectJoint = (mesh: THREE.Mesh, additive = false) => {
+      let visualMesh = mesh;
+      if (mesh.userData.isHitbox) {
+         const found = mesh.parent?.children.find(c => c.name === "visual") as THREE.Mesh;
+         if (found) visualMesh = found;
+      }
+      const selection = selectionRef.current;
+      if (additive && selection.includes(visualMesh)) {
+          const rest = selection.filter(m => m !== visualMesh);
+          setSelection(rest, rest[rest.length - 1] ?? null);
+      } else if (additive) {
+          setSelection([...selection, visualMesh], visualMesh);
+      } else {
+          setSelection(selection.includes(visualMesh) ? selection : [visualMesh], visualMesh);
+      }
+  };
+
+  const getSelectedJoints = () => selectionRef.current.map(m => m.parent!).filter(j => j.userData.isJoint);
+
+  // Grows the selection to every joint of each limb that has a selected joint
+  const selectWholeLimbs = () => {
+      const creature = creatureRef.current;
+      if (!creature) return;
+      const limbs = new Set(getSelectedJoints().map(j => j.userData.limbIndex));
+      const meshes: THREE.Mesh[] = [];
+      limbs.forEach(i => {
+          const joint1 = creature.getObjectByName(`limb_${i}_joint_1`);
+          if (joint1) getLimbChain(joint1).forEach(j => meshes.push(j.children.find(c => c.name === 'visual') as THREE.Mesh));
+      });
+      setSelection(meshes, selectedMeshRef.current);
+  };
+
+  // Selects the joints whose segment midpoint falls inside a screen rectangle (client pixels)
+  const selectInBox = (box: { x0: number; y0: number; x1: number; y1: number }, additive: boolean) => {
+      const creature = creatureRef.current;
+      const camera = cameraRef.current;
+      if (!creature || !camera) return;
+      const rect = rendererRef.current!.domElement.getBoundingClientRect();
+      const [left, right] = [Math.min(box.x0, box.x1), Math.max(box.x0, box.x1)];
+      const [top, bottom] = [Math.min(box.y0, box.y1), Math.max(box.y0, box.y1)];
+      const hits: THREE.Mesh[] = [];
+      creature.traverse(obj => {
+          if (!obj.userData.isJoint) return;
+          const visual = obj.children.find(c => c.name === 'visual') as THREE.Mesh | undefined;
+          if (!visual) return;
+          const p = visual.getWorldPosition(new THREE.Vector3()).project(camera);
+          const x = rect.left + (p.x * .5 + .5) * rect.width;
+          const y = rect.top + (p.y * -.5 + .5) * rect.height;
+          if (x >= left && x <= right && y >= top && y <= bottom) hits.push(visual);
+      });
+      const meshes = additive ? [...new Set([...selectionRef.current, ...hits])] : hits;
+      setSelection(meshes, hits[hits.length - 1] ?? (additive ? selectedMeshRef.current : null));
+  };
+
+  // After object turned from before, turns the rest of the selection by the same rotation,
+  // each joint in its own parent's frame
+  const turnSelectionWith = (object: THREE.Object3D, before: THREE.Quaternion) => {
+      const group = getSelectedJoints();
+      if (!group.includes(object)) return;
+      const delta = object.quaternion.clone().multiply(before.clone().invert());
+      group.forEach(j => {
+          if (j === object) return;
+          j.quaternion.premultiply(delta);
+          applySymmetry(j.userData.limbIndex);
+      });
+  };
+
+  const copyRotation = () => {
+      const joint = getSelectedJoint();
+      if (joint) rotationClipboardRef.current = joint.rotation.clone();
+  };
+
+  const pasteRotation = () => {
+      const rotation = rotationClipboardRef.current;
+      if (!rotation) return;
+      recordHistory(() => {
+          getSelectedJoints().forEach(j => {
+              j.rotation.copy(rotation);
+              applySymmetry(j.userData.limbIndex);
+          });
+          enforceConstraints(getSelectedJoint()?.userData.limbIndex ?? -1);
+      });
+  };
+
+  // --- Rotation Gizmo ---
+  const handleGizmoDown = () => {
+      const joint = gizmoRef.current?.object;
+      if (!joint) return;
+      if (playbackRef.current.playing) stopPlayback();
+      gizmoStartRef.current.copy(joint.quaternion);
+      beginHistoryStep();
+  };
+
+  const handleGizmoChange = () => {
+      const joint = gizmoRef.current?.object;
+      if (!joint || !gizmoRef.current?.dragging) return;
+      turnSelectionWith(joint, gizmoStartRef.current);
+      applySymmetry(joint.userData.limbIndex);
+      enforceConstraints(joint.userData.limbIndex);
+      gizmoStartRef.current.copy(joint.quaternion);
+  };
+
+  // The gizmo follows the active joint while it is switched on
+  useEffect(() => {
+      const gizmo = gizmoRef.current;
+      if (!gizmo) return;
+      const joint = gizmoEnabled && !isCanvasMode && !isGalleryMode ? getSelectedJoint() : null;
+      if (joint) gizmo.attach(joint);
+      else gizmo.detach();
+  }, [gizmoEnabled, selectedId, isCanvasMode, isGalleryMode]);
+
+  useEffect(() => { gizmoRef.current?.setRotationSnap(snapEnabled ? SNAP_ANGLE : null); }, [snapEnabled]);
+
+  // --- Joint Inspector ---
+  const getSelectedJoint = () => {
+      const joint = selectedMeshRef.current?.parent;
+      return joint?.userData.isJoint ? joint : null;
+  };
+
+  // Writes the selected joint's rotation into the inspector inputs every frame, so drags show up
+  // live without re-rendering. The input being typed into is left alone.
+  const syncInspector = () => {
+      const joint = getSelectedJoint();
+      if (!joint) return;
+      const isDeg = angleUnitRef.current === 'deg';
+      AXES.forEach((axis, i) => {
+          const value = isDeg ? THREE.MathUtils.radToDeg(joint.rotation[axis]) : joint.rotation[axis];
+          const slider = inspectorSliderRefs.current[i];
+          const field = inspectorFieldRefs.current[i];
+          if (slider && document.activeElement !== slider) slider.value = String(value);
+          if (field && document.activeElement !== field) field.value = value.toFixed(isDeg ? 1 : 3);
+      });
+  };
+
+  // Sets the axis on every selected joint. A slider drag is one history step (begun on
+  // pointer down); a typed value is one step, taken on blur or Enter.
+  const setJointAngle = (axis: typeof AXES[number], value: number, joints = getSelectedJoints()) => {
+      if (!Number.isFinite(value) || !joints.length) return;
+      const apply = () => {
+          joints.forEach(joint => {
+              joint.rotation[axis] = angleUnit === 'deg' ? THREE.MathUtils.degToRad(value) : value;
+              applySymmetry(joint.userData.limbIndex);
+          });
+          enforceConstraints(joints[0].userData.limbIndex);
+      };
+      if (pendingSnapshotRef.current) apply();
+      else recordHistory(apply);
+  };
+
+  const changeAngleUnit = (unit: AngleUnit) => {
+      angleUnitRef.current = unit;
+      setAngleUnit(unit);
+  };
+
+  // Tab order through every joint of the rig, limb by limb
+  const cycleJoint = (step: number) => {
+      const creature = creatureRef.current;
+      if (!creature) return;
+      const ids = getJointIds(creature);
+      const current = getSelectedJoint();
+      const index = current ? ids.indexOf(current.userData.id) : -1;
+      const next = creature.getObjectByName(ids[(index + step + ids.length) % ids.length]);
+      const visual = next?.children.find(c => c.name === 'visual');
+      if (visual) selectJoint(visual as THREE.Mesh);
+  };
+
+  const nudgeJoint = (axis: typeof AXES[number], delta: number) => {
+      recordHistory(() => {
+          getSelectedJoints().forEach(joint => {
+              joint.rotation[axis] += delta;
+              if (settingsRef.current.snapEnabled && Math.abs(delta) >= SNAP_ANGLE) {
+                  joint.rotation[axis] = Math.round(joint.rotation[axis] / SNAP_ANGLE) * SNAP_ANGLE;
+              }
+              applySymmetry(joint.userData.limbIndex);
+          });
+          enforceConstraints(getSelectedJoint()?.userData.limbIndex ?? -1);
+      });
+  };
+
+  // Re-registered every render so the mode toggles see current state
+  useEffect(() => {
+      const handleShortcut = (e: KeyboardEvent) => {
+          if (e.ctrlKey || e.metaKey || e.altKey || isCanvasMode || isGalleryMode) return;
+          const target = e.target as HTMLElement | null;
+          if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+          const step = e.shiftKey ? FINE_ANGLE : SNAP_ANGLE;
+          const nudges: Record<string, [typeof AXES[number], number]> = {
+              ArrowLeft: ['z', step], ArrowRight: ['z', -step],
+              ArrowUp: ['x', -step], ArrowDown: ['x', step],
+              PageUp: ['y', step], PageDown: ['y', -step]
+          };
+          const toggles: Record<string, () => void> = {
+              o: () => setOrbitEnabled(!orbitEnabled),
+              g: () => setGrabEnabled(!grabEnabled),
+              s: () => setSnapEnabled(!snapEnabled),
+              r: () => setGizmoEnabled(!gizmoEnabled),
+              l: () => setShowLabels(!showLabels),
+              t: toggleTheme,
+              b: () => { setGalleryPurpose('apply'); setIsGalleryMode(true); },
+              c: () => { setIsCanvasMode(true); setStrokeCount(0); strokesRef.current = []; }
+          };
+          // Tab only walks the joints from the stage; on a control it moves focus as usual
+          const onStage = !target || target === document.body || target.tagName === 'CANVAS';
+          if (e.key === 'Tab') {
+              if (!onStage) return;
+              cycleJoint(e.shiftKey ? -1 : 1);
+          }
+          else if (e.key === 'Escape') clearSelection();
+          else if (nudges[e.key] && getSelectedJoint()) nudgeJoint(...nudges[e.key]);
+          else if (toggles[e.key.toLowerCase()] && !e.shiftKey) toggles[e.key.toLowerCase()]();
+          else return;
+          e.preventDefault();
+      };
+      window.addEventListener('keydown', handleShortcut);
+      return () => window.removeEventListener('keydown', handleShortcut);
+  });
+
+  // --- Magic Pose 2.0 ---
+  // Asks the configured vision backend where the sketch's knees and tips are, starting from the
+  // on-device reading so limb ids stay consistent between the two.
+  const requestSketchLimbs = async (local: SketchLimb[], signal: AbortSignal) => {
+      if (!isVisionConfigured(visionConfig)) throw new Error(`${VISION_PROVIDERS[visionConfig.provider].name} is not configured`);
+      
+      // --- OPTIMIZATION START ---
+      // Resize image to max 512px width to reduce payload size (5-10x faster upload)
+      const targetWidth = 512;
+      const scale = targetWidth / canvasRef.current!.width;
+      const targetHeight = canvasRef.current!.height * scale;
+      
+      const tempCanvas = document.createElement('canvas');
+      tempCanvas.width = targetWidth;
+      tempCanvas.height = targetHeight;
+      const tempCtx = tempCanvas.getContext('2d');
+      if (tempCtx) {
+          // Draw white background
+          tempCtx.fillStyle = '#FFFFFF';
+          tempCtx.fillRect(0, 0, targetWidth, targetHeight);
+          tempCtx.drawImage(canvasRef.current!, 0, 0, targetWidth, targetHeight);
+      }
+      
+      const base64Data = tempCanvas.toDataURL("image/jpeg", 0.7).split(",")[1];
+      // --- OPTIMIZATION END ---
+      
+      const segmentCounts = rigRef.current.limbs.map(limb => limb.segments.length);
+      const limbCount = segmentCounts.length;
+      const prompt = `
+        Analyze this 2D stick figure sketch.
+        Up to ${limbCount} limbs radiate from the Red dot, ${describeSegmentCounts(segmentCounts)}.
+        For EACH drawn limb (ids 0 to ${limbCount - 1}), find the Blue dots (knees, in order from the center) and the Green dot (tip).
+        
+        Return JSON:
+        {
+          "limbs": [
+            { "id": 0, "points": [${Array.from({ length: segmentCounts[0] }, () => '[x, y]').join(', ')}] },
+            ...
+          ]
         }
-    }
+        "points" lists the limb's knees (one fewer than its segments) and then the tip.
+        Normalize coordinates to 0-1 range.
+        A rough reading of the strokes is ${JSON.stringify({ limbs: local })}. Keep its ids and correct its points.
+      `;
+
+      return withRetries(async attemptSignal => {
+          const text = await VISION_BACKENDS[visionConfig.provider](visionConfig, { image: base64Data, prompt, limbCount, segmentCounts }, attemptSignal);
+          return parseSketchLimbs(text, segmentCounts);
+      }, signal);
   };
 
-  const handlePointerMove = (e: React.PointerEvent) => {
-      if (!isDraggingRef.current || !dragTargetRef.current) return;
-      const rect = rendererRef.current!.domElement.getBoundingClientRect();
-      const nx = ((e.clientX - rect.left) / rect.width) * 2 - 1;
-      const ny = -((e.clientY - rect.top) / rect.height) * 2 + 1;
-      raycasterRef.current.setFromCamera(new THREE.Vector2(nx, ny), cameraRef.current!);
-      const ray = raycasterRef.current.ray;
-      const targetPoint = new THREE.Vector3();
-      if (!ray.intersectPlane(dragPlaneRef.current, targetPoint)) return;
+  // The sketch is drawn over the current view, so its points lie on the plane facing the camera
+  // through the creature's root
+  const sketchToWorld = () => {
+      const camera = cameraRef.current!;
+      const root = creatureRef.current!.getWorldPosition(new THREE.Vector3());
+      const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(camera.getWorldDirection(new THREE.Vector3()), root);
+      return (pt: number[]) => {
+          raycasterRef.current.setFromCamera(new THREE.Vector2(pt[0] * 2 - 1, 1 - pt[1] * 2), camera);
+          return raycasterRef.current.ray.intersectPlane(plane, new THREE.Vector3()) ?? root.clone();
+      };
+  };
 
-      if (dragModeRef.current === 'ik_drag') {
-          const joint1 = dragTargetRef.current;
-          const joint2 = joint1.getObjectByName(joint1.name.replace('joint_1', 'joint_2'))!;
-          let snapPos = targetPoint.clone();
-          let minDist = SNAP_THRESHOLD;
-          let snapped = false;
-          creatureRef.current!.traverse(obj => {
-              if (obj.userData.isHitbox && obj.userData.type === 'tip') {
-                  if (obj.userData.limbIndex === joint1.userData.limbIndex) return;
-                  const otherTipWorld = new THREE.Vector3();
-                  obj.getWorldPosition(otherTipWorld);
-                  const d = otherTipWorld.distanceTo(targetPoint);
-                  if (d < minDist) { minDist = d; snapPos.copy(otherTipWorld); snapped = true; }
-              }
+  // Points each sketched limb along its strokes. Segment lengths follow the sketch within ±15%.
+  const applySketchLimbs = (limbs: SketchLimb[], toWorld = sketchToWorld()) => {
+      const root = creatureRef.current!.getWorldPosition(new THREE.Vector3());
+
+      limbs.forEach(l => {
+          const joint1 = creatureRef.current!.getObjectByName(`limb_${l.id}_joint_1`);
+          if (!joint1) return;
+          const chain = getLimbChain(joint1);
+          let points = (l.points as unknown[])
+              .filter((pt): pt is number[] => Array.isArray(pt) && isFiniteNumber(pt[0]) && isFiniteNumber(pt[1]))
+              .map(toWorld);
+          if (points.length === 0) return;
+          // Limbs with more or fewer segments than the sketch was read for follow the same stroke
+          if (points.length !== chain.length) {
+              points = resamplePolyline(root, points, chain.map(joint => joint.userData.length as number));
+          }
+
+          // Calculate scale ratios from the sketched segment lengths (clamped 0.85 - 1.15).
+          // Strokes start at the root, where the sketch's red dot sits.
+          const scales: SegmentScales = {};
+          points.forEach((pt, s) => {
+              const d = (s === 0 ? root : points[s - 1]).distanceTo(pt);
+              scales[chain[s].name] = Math.min(1.15, Math.max(0.85, d / chain[s].userData.length));
           });
-          const finalTarget = snapped ? snapPos : targetPoint;
-          const rootPos = new THREE.Vector3();
-          joint1.getWorldPosition(rootPos);
-          const direction = new THREE.Vector3().subVectors(finalTarget, rootPos);
-          let dist = direction.length();
-          
-          // Revert to standard lengths for IK calculation to keep it stable, 
-          // as variable limb length IK is complex if we don't track the variable length.
-          const l1 = LIMB_SEGMENT_1_LENGTH; 
-          const l2 = LIMB_SEGMENT_2_LENGTH;
-          
-          if (dist > l1 + l2 - 0.01) { dist = l1 + l2 - 0.01; direction.normalize().multiplyScalar(dist); }
-          
-          const cosKnee = (l1*l1 + l2*l2 - dist*dist) / (2*l1*l2);
-          const kneeAngleInternal = Math.acos(Math.max(-1, Math.min(1, cosKnee)));
-          const kneeBend = Math.PI - kneeAngleInternal; 
-          joint2.rotation.set(0, 0, kneeBend); 
-
-          const cosAlpha = (l1*l1 + dist*dist - l2*l2) / (2*l1*dist);
-          const alpha = Math.acos(Math.max(-1, Math.min(1, cosAlpha)));
-          const parent = joint1.parent!;
-          const localTarget = finalTarget.clone();
-          parent.worldToLocal(localTarget);
-          const targetDir = localTarget.clone().normalize();
-          const q1 = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0,1,0), targetDir);
-          const qBend = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0,0,1), -alpha); 
-          joint1.quaternion.copy(q1.multiply(qBend));
-          
-      } else if (dragModeRef.current === 'joint_rotate') {
-          const object = dragTargetRef.current;
-          const parent = object.parent!;
-          const localPoint = targetPoint.clone();
-          parent.worldToLocal(localPoint);
-          const dir = localPoint.normalize();
-          const q = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0,1,0), dir);
-          
-          if (snapEnabled) {
-              const euler = new THREE.Euler().setFromQuaternion(q);
-              const STEP = SNAP_ANGLE;
-              euler.x = Math.round(euler.x / STEP) * STEP;
-              euler.y = Math.round(euler.y / STEP) * STEP;
-              euler.z = Math.round(euler.z / STEP) * STEP;
-              object.quaternion.setFromEuler(euler);
-          } else {
-              object.quaternion.copy(q);
+          // Apply Scale (also moves each next joint to the new knee position)
+          applySegmentScalesToRef(scales, chain[0]);
+
+          // Apply Rotations (IK): point each segment from its actual start at its sketched end
+          points.forEach((pt, s) => {
+              const joint = chain[s];
+              joint.updateWorldMatrix(true, false);
+              const start = new THREE.Vector3();
+              joint.getWorldPosition(start);
+              const dirGlobal = new THREE.Vector3().subVectors(pt, start).normalize();
+              const qWorld = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0,1,0), dirGlobal);
+              const parentQ = new THREE.Quaternion();
+              joint.parent!.getWorldQuaternion(parentQ);
+              joint.quaternion.copy(parentQ.invert().multiply(qWorld));
+          });
+      });
+  };
+
+  // Turns creature space into camera space, for matching strokes to limbs on screen
+  const sketchView = () => cameraRef.current!.quaternion.clone().invert().multiply(creatureRef.current!.quaternion);
+
+  // The strokes are read on-device, with no network. With refine on, the vision backend corrects
+  // that reading; limbs it misses keep the on-device reading. A failed or cancelled request
+  // leaves the canvas and its strokes as they were so it can be retried.
+  const analyzeSketchAndApply = async (refine = settingsRef.current.refineSketch && isVisionConfigured(visionConfig)) => {
+      if (!canvasRef.current || !creatureRef.current || !cameraRef.current) return;
+      const local = sketchToLimbs(strokesRef.current, canvasRef.current.width, canvasRef.current.height, rigRef.current, sketchView());
+      let limbs = local;
+      setSketchError(null);
+      if (refine) {
+          const controller = new AbortController();
+          sketchAbortRef.current = controller;
+          setIsGenerating(true);
+          try {
+              const answer = await requestSketchLimbs(local, controller.signal);
+              limbs = [...answer.limbs, ...local.filter(l => !answer.limbs.some(a => a.id === l.id))];
+              const missed = local.length - local.filter(l => answer.limbs.some(a => a.id === l.id)).length;
+              if (missed) showNotice(`${missed} limb${missed > 1 ? 's' : ''} kept the on-device reading${answer.problems.length ? ` (${answer.problems[0]})` : ''}`);
+          } catch (err) {
+              if (!controller.signal.aborted) {
+                  console.error(err);
+                  setSketchError(err instanceof Error ? err.message : String(err));
+              }
+              return;
+          } finally {
+              sketchAbortRef.current = null;
+              setIsGenerating(false);
           }
       }
-  };
 
-  const handlePointerUp = () => {
-      isDraggingRef.current = false;
-      dragTargetRef.current = null;
-      dragModeRef.current = null;
-      if (controlsRef.current) controlsRef.current.enabled = orbitEnabled;
+      recordHistory(() => {
+          applySketchLimbs(limbs);
+          updateConstraints([]);
+      });
+      
+      // --- Auto-Save Generated Pose ---
+      // Wait for next frame to ensure rendering is updated
+      requestAnimationFrame(() => {
+          if (rendererRef.current && sceneRef.current && cameraRef.current) {
+              rendererRef.current.render(sceneRef.current, cameraRef.current);
+              const thumb = rendererRef.current.domElement.toDataURL("image/png", 0.5);
+              const newPoseData = extractPose(creatureRef.current!);
+              
+              const newSavedPose: SavedPose = {
+                  id: crypto.randomUUID(),
+                  name: `Magic Pose ${new Date().toLocaleTimeString()}`,
+                  pose: newPoseData,
+                  scales: extractSegmentScales(creatureRef.current!),
+                  labels: labelsRef.current,
+                  body: creatureRef.current!.quaternion.toArray(),
+                  rig: rigRef.current,
+                  thumbnail: thumb,
+                  timestamp: Date.now(),
+                  type: 'generated'
+              };
+              
+              setSavedPoses(prev => [newSavedPose, ...prev]);
+          }
+      });
+      closeCanvas();
   };
-  
-  useEffect(() => { if (controlsRef.current) controlsRef.current.enabled = orbitEnabled; }, [orbitEnabled]);
 
-  const selectJoint = (mesh: THREE.Mesh) => {
-      let visualMesh = mesh;
-      if (mesh.userData.isHitbox) {
-         const found = mesh.parent?.children.find(c => c.name === "visual") as THREE.Mesh;
-         if (found) visualMesh = found;
-      }
-      if (selectedMeshRef.current) selectedMeshRef.current.material = limbMaterialRef.current;
-      selectedMeshRef.current = visualMesh;
-      selectedMeshRef.current.material = highlightMaterialRef.current;
-      if (visualMesh.parent?.userData.isJoint) setSelectedId(visualMesh.parent.userData.id);
+  // --- Text to Pose ---
+  // Text poses come back in a square front view of the creature: root at the center, the longest
+  // limb reaching 0.25 from it when straight
+  const frontToWorld = () => {
+      const creature = creatureRef.current!;
+      creature.updateWorldMatrix(true, false);
+      const reach = Math.max(...rigRef.current.limbs.map(limb => limb.segments.reduce((sum, seg) => sum + seg.length, 0)));
+      return (pt: number[]) => creature.localToWorld(new THREE.Vector3((pt[0] - 0.5) * 4 * reach, (0.5 - pt[1]) * 4 * reach, 0));
   };
 
-  // --- Magic Pose 2.0 ---
-  const analyzeSketchAndApply = async () => {
-      if (!canvasRef.current) return;
-      setIsGenerating(true);
-      try {
-        if (!process.env.API_KEY) throw new Error("API Key missing");
-        
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        
-        // --- OPTIMIZATION START ---
-        // Resize image to max 512px width to reduce payload size (5-10x faster upload)
-        const targetWidth = 512;
-        const scale = targetWidth / canvasRef.current.width;
-        const targetHeight = canvasRef.current.height * scale;
-        
-        const tempCanvas = document.createElement('canvas');
-        tempCanvas.width = targetWidth;
-        tempCanvas.height = targetHeight;
-        const tempCtx = tempCanvas.getContext('2d');
-        if (tempCtx) {
-            // Draw white background
-            tempCtx.fillStyle = '#FFFFFF';
-            tempCtx.fillRect(0, 0, targetWidth, targetHeight);
-            tempCtx.drawImage(canvasRef.current, 0, 0, targetWidth, targetHeight);
-        }
-        
-        const base64Data = tempCanvas.toDataURL("image/jpeg", 0.7).split(",")[1];
-        // --- OPTIMIZATION END ---
-        
-        const prompt = `
-          Analyze this 2D stick figure sketch.
-          There are 8 limbs radiating from the Red center dot.
-          For EACH limb (0 to 7), find the Blue dot (knee) and Green dot (tip).
-          
-          Return JSON:
-          {
-            "limbs": [
-              { "id": 0, "knee": [x, y], "tip": [x, y] },
-              ...
-            ]
-          }
-          Normalize coordinates to 0-1 range.
-        `;
+  // Poses the creature as each candidate just long enough to read it back and render its
+  // thumbnail, then puts the current pose back
+  const renderPoseCandidates = (poses: { name: string; limbs: SketchLimb[] }[], description: string): SavedPose[] => {
+      const creature = creatureRef.current!;
+      const before = captureSnapshot()!;
+      const toWorld = frontToWorld();
+      const candidates = poses.map(({ name, limbs }): SavedPose => {
+          applySnapshot(before);
+          applySketchLimbs(limbs, toWorld);
+          rendererRef.current!.render(sceneRef.current!, cameraRef.current!);
+          return {
+              id: crypto.randomUUID(),
+              name: `${description.slice(0, 40)} · ${name}`,
+              pose: extractPose(creature),
+              scales: extractSegmentScales(creature),
+              labels: labelsRef.current,
+              body: before.body,
+              rig: rigRef.current,
+              thumbnail: rendererRef.current!.domElement.toDataURL("image/png", 0.5),
+              timestamp: Date.now(),
+              type: 'generated'
+          };
+      });
+      applySnapshot(before);
+      rendererRef.current!.render(sceneRef.current!, cameraRef.current!);
+      return candidates;
+  };
 
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: { parts: [{ inlineData: { mimeType: "image/jpeg", data: base64Data } }, { text: prompt }] },
-            config: { responseMimeType: "application/json" }
-        });
+  // Asks the vision backend for a few poses matching the description. They are offered as
+  // thumbnails; nothing changes until one is picked.
+  const generatePoseCandidates = async () => {
+      const description = posePrompt.trim();
+      if (!description || !creatureRef.current || !rendererRef.current || !sceneRef.current || !cameraRef.current) return;
+      setPromptError(null);
+      setPoseCandidates([]);
+      if (!isVisionConfigured(visionConfig)) {
+          setPromptError(`${VISION_PROVIDERS[visionConfig.provider].name} is not configured`);
+          return;
+      }
 
-        const text = stripMarkdown(response.text || "{}");
-        const result = JSON.parse(text);
-        
-        if (result.limbs && creatureRef.current) {
-            const width = 20; 
-            const height = width / (window.innerWidth/window.innerHeight);
-            const aspect = window.innerWidth/window.innerHeight;
-            const frustumHeight = 12;
-            const frustumWidth = frustumHeight * aspect;
-
-            result.limbs.forEach((l: any) => {
-                const i = l.id;
-                const j1 = creatureRef.current!.getObjectByName(`limb_${i}_joint_1`) as THREE.Group;
-                const j2 = creatureRef.current!.getObjectByName(`limb_${i}_joint_2`) as THREE.Group;
-                if (!j1 || !j2) return;
-
-                // Calculate positions in "Frustum Space" (Z=0)
-                const kneeX = (l.knee[0] - 0.5) * frustumWidth; 
-                const kneeY = -(l.knee[1] - 0.5) * frustumHeight;
-                const kneePos = new THREE.Vector3(kneeX, kneeY, 0); 
-                
-                const tipX = (l.tip[0] - 0.5) * frustumWidth;
-                const tipY = -(l.tip[1] - 0.5) * frustumHeight;
-                const tipPos = new THREE.Vector3(tipX, tipY, 0);
-
-                // Calculate Limb Lengths based on sketch
-                const origin = new THREE.Vector3(0,0,0); // J1 local origin (if projected to same plane)
-                // Since the sketch corresponds to the camera view, and the root is at 0,0,0 in view:
-                const d1 = origin.distanceTo(kneePos);
-                const d2 = kneePos.distanceTo(tipPos);
-                
-                // Calculate scale ratios (clamped 0.85 - 1.15)
-                const r1 = Math.min(1.15, Math.max(0.85, d1 / LIMB_SEGMENT_1_LENGTH));
-                const r2 = Math.min(1.15, Math.max(0.85, d2 / LIMB_SEGMENT_2_LENGTH));
-                
-                // Apply Scale
-                const seg1Mesh = j1.children.find(c => c.name === 'visual') as THREE.Mesh;
-                const seg2Mesh = j2.children.find(c => c.name === 'visual') as THREE.Mesh;
-                
-                if (seg1Mesh) {
-                    seg1Mesh.scale.set(1, r1, 1);
-                    seg1Mesh.position.y = (LIMB_SEGMENT_1_LENGTH * r1) / 2;
-                }
-                
-                // Move J2 to new knee position
-                j2.position.y = LIMB_SEGMENT_1_LENGTH * r1;
-                
-                if (seg2Mesh) {
-                    seg2Mesh.scale.set(1, r2, 1);
-                    seg2Mesh.position.y = (LIMB_SEGMENT_2_LENGTH * r2) / 2;
-                    // Move tip hitbox
-                    const tipHitbox = seg2Mesh.children.find(c => c.name === 'hitbox_tip');
-                    if (tipHitbox) tipHitbox.position.y = (LIMB_SEGMENT_2_LENGTH * r2) / 2; 
-                }
+      const segmentCounts = rigRef.current.limbs.map(limb => limb.segments.length);
+      const limbCount = segmentCounts.length;
+      const restAngles = restLimbAngles(rigRef.current).map((a, id) => `${id}: ${Math.round(THREE.MathUtils.radToDeg(a))}°`).join(', ');
+      const prompt = `
+        Pose a stick creature to match this description: "${description}".
+        It has ${limbCount} limbs (ids 0 to ${limbCount - 1}) radiating from its body, ${describeSegmentCounts(segmentCounts)}.
+        Coordinates are a front view normalized to 0-1: x to the right, y down, the body at [0.5, 0.5].
+        A straight limb reaches about 0.25 from the body.
+        At rest each limb points (0° = right, 90° = up): ${restAngles}.
+        Give ${MAGIC_POSE_CANDIDATES} clearly different poses that fit the description.
 
-                // Apply Rotations (IK)
-                // 1. Point J1 to Knee
-                const localKnee = kneePos.clone();
-                j1.parent!.worldToLocal(localKnee);
-                const dir1 = localKnee.normalize();
-                j1.quaternion.setFromUnitVectors(new THREE.Vector3(0,1,0), dir1);
-                
-                // 2. Point J2 to Tip
-                j1.updateWorldMatrix(true, false); // Update J1 to get correct world pos for J2
-                const kneeWorldActual = new THREE.Vector3();
-                j2.getWorldPosition(kneeWorldActual);
-                
-                const dir2Global = new THREE.Vector3().subVectors(tipPos, kneeWorldActual).normalize();
-                const qWorld = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0,1,0), dir2Global); 
-                const parentQ = new THREE.Quaternion();
-                j2.parent!.getWorldQuaternion(parentQ);
-                j2.quaternion.copy(parentQ.invert().multiply(qWorld));
-            });
-            if (controlsRef.current) controlsRef.current.reset();
-            
-            // --- Auto-Save Generated Pose ---
-            // Wait for next frame to ensure rendering is updated
-            requestAnimationFrame(() => {
-                if (rendererRef.current && sceneRef.current && cameraRef.current) {
-                    rendererRef.current.render(sceneRef.current, cameraRef.current);
-                    const thumb = rendererRef.current.domElement.toDataURL("image/png", 0.5);
-                    const newPoseData = extractPose(creatureRef.current!);
-                    
-                    const newSavedPose: SavedPose = {
-                        id: crypto.randomUUID(),
-                        name: `Magic Pose ${new Date().toLocaleTimeString()}`,
-                        pose: newPoseData,
-                        thumbnail: thumb,
-                        timestamp: Date.now(),
-                        type: 'generated'
-                    };
-                    
-                    setSavedPoses(prev => [newSavedPose, ...prev]);
-                }
-            });
+        Return JSON:
+        {
+          "poses": [
+            { "name": "short title", "limbs": [{ "id": 0, "points": [${Array.from({ length: segmentCounts[0] }, () => '[x, y]').join(', ')}] }, ...] },
+            ...
+          ]
         }
-        setIsCanvasMode(false);
-        setStrokeCount(0);
-        strokesRef.current = [];
+        "points" lists the limb's knees (one fewer than its segments), from the body outwards, and then the tip. Include every limb.
+      `;
+
+      const controller = new AbortController();
+      sketchAbortRef.current = controller;
+      setIsGenerating(true);
+      try {
+          const answer = await withRetries(async attemptSignal => {
+              const text = await VISION_BACKENDS[visionConfig.provider](visionConfig, { prompt, limbCount, segmentCounts, candidates: MAGIC_POSE_CANDIDATES }, attemptSignal);
+              return parsePoseCandidates(text, segmentCounts);
+          }, controller.signal);
+          if (answer.problems.length) showNotice(`Parts of the answer were unusable (${answer.problems[0]})`);
+          setPoseCandidates(renderPoseCandidates(answer.poses, description));
       } catch (err) {
-          console.error(err);
-          setStrokeCount(0);
-          strokesRef.current = [];
+          if (!controller.signal.aborted) {
+              console.error(err);
+              setPromptError(err instanceof Error ? err.message : String(err));
+          }
       } finally {
+          sketchAbortRef.current = null;
           setIsGenerating(false);
       }
   };
 
+  // Applies the picked candidate and keeps it in the gallery, like a sketched Magic Pose
+  const pickPoseCandidate = (candidate: SavedPose) => {
+      if (!creatureRef.current) return;
+      recordHistory(() => {
+          applyPoseToRef(candidate.pose, creatureRef.current!);
+          if (candidate.scales) applySegmentScalesToRef(candidate.scales, creatureRef.current!);
+          if (candidate.body) creatureRef.current!.quaternion.fromArray(candidate.body);
+          updateConstraints([]);
+      });
+      setSavedPoses(prev => [{ ...candidate, timestamp: Date.now() }, ...prev]);
+      closeCanvas();
+  };
+
+  const cancelSketchRequest = () => sketchAbortRef.current?.abort(new Error("Cancelled"));
+
+  const closeCanvas = () => {
+      cancelSketchRequest();
+      setSketchError(null);
+      setPromptError(null);
+      setPoseCandidates([]);
+      setIsCanvasMode(false);
+      setStrokeCount(0);
+      strokesRef.current = [];
+      redrawIndexRef.current = null;
+  };
+
   const handleResize = useCallback(() => {
     if (cameraRef.current && rendererRef.current) {
       const frustumSize = 12;
@@ -924,37 +3694,48 @@ const App = () => {
     return () => window.removeEventListener("resize", handleResize);
   }, [handleResize]);
 
+  // Canvas pixel under the creature's root in the current view; every stroke starts here
+  const getSketchOrigin = () => {
+      const canvas = canvasRef.current!;
+      const p = creatureRef.current && cameraRef.current
+          ? creatureRef.current.getWorldPosition(new THREE.Vector3()).project(cameraRef.current)
+          : new THREE.Vector3();
+      return { x: (p.x * .5 + .5) * canvas.width, y: (p.y * -.5 + .5) * canvas.height };
+  };
+
   const redrawCanvas = () => {
      if (!canvasRef.current || !ctxRef.current) return;
      const ctx = ctxRef.current;
      const w = canvasRef.current.width;
      const h = canvasRef.current.height;
-     const cx = w / 2;
-     const cy = h / 2;
+     const { x: cx, y: cy } = getSketchOrigin();
 
      ctx.clearRect(0, 0, w, h);
 
-     // Draw Center Red Dot
+     // Draw Root Red Dot
      ctx.fillStyle = '#FF3B30';
      ctx.beginPath(); ctx.arc(cx, cy, 8, 0, Math.PI*2); ctx.fill();
 
      // Draw Saved Strokes
      ctx.lineCap = "round"; ctx.lineJoin = "round"; ctx.lineWidth = 4; ctx.strokeStyle = "black";
      
-     strokesRef.current.forEach(stroke => {
+     strokesRef.current.forEach((stroke, i) => {
          if (stroke.points.length < 2) return;
+         // The limb picked for redrawing fades until its new stroke is drawn
+         ctx.globalAlpha = i === redrawIndexRef.current ? 0.25 : 1;
          ctx.beginPath();
          ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
          stroke.points.forEach(p => ctx.lineTo(p.x, p.y));
          ctx.stroke();
 
-         // Knee Dot
+         // Knee Dots
          ctx.fillStyle = '#007AFF';
-         ctx.beginPath(); ctx.arc(stroke.knee.x, stroke.knee.y, 6, 0, Math.PI*2); ctx.fill();
+         stroke.knees.forEach(knee => { ctx.beginPath(); ctx.arc(knee.x, knee.y, 6, 0, Math.PI*2); ctx.fill(); });
          // Tip Dot
          ctx.fillStyle = '#34C759';
          ctx.beginPath(); ctx.arc(stroke.tip.x, stroke.tip.y, 6, 0, Math.PI*2); ctx.fill();
      });
+     ctx.globalAlpha = 1;
 
      // Draw Current Stroke
      if (currentStrokeRef.current.length > 0) {
@@ -982,16 +3763,19 @@ const App = () => {
       if (isGeneratingRef.current) return; // Block drawing if generating
       if (!ctxRef.current || !canvasRef.current) return;
       const { x, y } = getCoords(e);
-      const w = canvasRef.current.width;
-      const h = canvasRef.current.height;
-      const cx = w / 2;
-      const cy = h / 2;
+      const { x: cx, y: cy } = getSketchOrigin();
 
-      // Distance check to center
-      const dist = Math.sqrt(Math.pow(x - cx, 2) + Math.pow(y - cy, 2));
-      
-      // Allow start if within reasonable distance (e.g. 80px) or force snapping to center?
-      // Prompt says "draw ... from this point". We'll force the start point to be center.
+      // Grabbing a knee or tip dot moves it instead of drawing
+      const handle = findSketchHandle(x, y);
+      if (handle) {
+          sketchHandleRef.current = handle;
+          return;
+      }
+      // Remembered so a tap on a limb can pick it for redrawing
+      const tapped = strokesRef.current.findIndex(stroke => distanceToPolyline({ x, y }, stroke.points) < SKETCH_HIT_RADIUS);
+      tapStrokeRef.current = tapped === -1 ? null : tapped;
+
+      // Prompt says "draw ... from this point". We'll force the start point to be the root.
       isDrawingRef.current = true;
       currentStrokeRef.current = [{x: cx, y: cy}, {x, y}];
       redrawCanvas();
@@ -999,6 +3783,15 @@ const App = () => {
 
   const draw = (e: React.MouseEvent | React.TouchEvent) => {
       if (isGeneratingRef.current) return; // Block drawing if generating
+      const handle = sketchHandleRef.current;
+      if (handle && ctxRef.current) {
+          const stroke = strokesRef.current[handle.stroke];
+          const point = getCoords(e);
+          if (handle.joint < stroke.knees.length) stroke.knees[handle.joint] = point;
+          else stroke.tip = point;
+          redrawCanvas();
+          return;
+      }
       if (!isDrawingRef.current || !ctxRef.current) return;
       const { x, y } = getCoords(e);
       currentStrokeRef.current.push({x, y});
@@ -1006,53 +3799,66 @@ const App = () => {
   };
 
   const stopDrawing = () => {
+      if (sketchHandleRef.current) {
+          sketchHandleRef.current = null;
+          return;
+      }
       if (!isDrawingRef.current) return;
       isDrawingRef.current = false;
+      const tapped = tapStrokeRef.current;
+      tapStrokeRef.current = null;
       
       const points = currentStrokeRef.current;
       if (points.length < 5) {
+          // A tap on a limb picks it to be replaced by the next stroke; tapping it again un-picks it
+          if (tapped !== null) redrawIndexRef.current = redrawIndexRef.current === tapped ? null : tapped;
           currentStrokeRef.current = [];
           redrawCanvas();
           return;
       }
 
-      const start = points[0];
-      const tip = points[points.length - 1];
+      const newStroke: Stroke = {
+          points: [...points],
+          knees: [],
+          tip: points[points.length - 1]
+      };
+      if (redrawIndexRef.current !== null) strokesRef.current[redrawIndexRef.current] = newStroke;
+      else strokesRef.current.push(newStroke);
+      // Fit knees for the limb each stroke now drives; a new stroke can move others to another limb
+      const rig = rigRef.current;
+      matchStrokesToLimbs(strokesRef.current, rig, sketchView()).forEach((limb, s) => {
+          strokesRef.current[s].knees = strokeKnees(strokesRef.current[s], rig.limbs[limb]);
+      });
+      redrawIndexRef.current = null;
+      currentStrokeRef.current = [];
+      setStrokeCount(strokesRef.current.length);
+      redrawCanvas();
+  };
 
-      // Estimate Knee (Point farthest from line start-tip)
-      let maxDist = 0;
-      let knee = points[Math.floor(points.length / 2)];
-      
-      // Line equation Ax + By + C = 0
-      const A = start.y - tip.y;
-      const B = tip.x - start.x;
-      const C = start.x * tip.y - tip.x * start.y;
-      const denom = Math.sqrt(A*A + B*B);
-
-      if (denom > 1) { // Avoid divide by zero for super short lines
-          points.forEach(p => {
-              const d = Math.abs(A*p.x + B*p.y + C) / denom;
-              if (d > maxDist) {
-                  maxDist = d;
-                  knee = p;
-              }
-          });
+  // Knee or tip dot under the pointer, topmost stroke first. joint counts the knees from the center, then the tip.
+  const findSketchHandle = (x: number, y: number) => {
+      for (let i = strokesRef.current.length - 1; i >= 0; i--) {
+          const joints = [...strokesRef.current[i].knees, strokesRef.current[i].tip];
+          for (let j = joints.length - 1; j >= 0; j--) {
+              if (Math.hypot(joints[j].x - x, joints[j].y - y) < SKETCH_HIT_RADIUS) return { stroke: i, joint: j };
+          }
       }
+      return null;
+  };
 
-      const newStroke: Stroke = { points: [...points], knee, tip };
-      strokesRef.current.push(newStroke);
-      currentStrokeRef.current = [];
-      
-      const newCount = strokesRef.current.length;
-      setStrokeCount(newCount);
+  const undoStroke = () => {
+      if (isGeneratingRef.current) return;
+      strokesRef.current.pop();
+      redrawIndexRef.current = null;
+      setStrokeCount(strokesRef.current.length);
       redrawCanvas();
-
-      if (newCount === 8) analyzeSketchAndApply();
   };
 
   const clearCanvas = () => {
+      setSketchError(null);
       strokesRef.current = [];
       currentStrokeRef.current = [];
+      redrawIndexRef.current = null;
       setStrokeCount(0);
       redrawCanvas();
   };
@@ -1061,7 +3867,272 @@ const App = () => {
       if ("touches" in e) return { x: e.touches[0].clientX, y: e.touches[0].clientY };
       return { x: e.clientX, y: e.clientY };
   };
-  const resetPose = () => { if (creatureRef.current) applyPoseToRef(INITIAL_POSE, creatureRef.current); };
+  const exportPoseLibrary = () => {
+      const json = serializePoseLibrary(savedPoses, includeThumbnails, rigRef.current);
+      downloadBlob(new Blob([json], { type: 'application/json' }), `mento-pose-library-${Date.now()}.json`);
+  };
+
+  const handleLibraryFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          setPendingImport(parsePoseLibrary(await file.text(), rigRef.current));
+          setLibraryError(null);
+      } catch (err) {
+          setPendingImport(null);
+          setLibraryError(err instanceof Error ? err.message : String(err));
+      }
+  };
+
+  const confirmImport = () => {
+      if (!pendingImport) return;
+      setSavedPoses(prev => mergePoseLibrary(prev, pendingImport, importMode, duplicateStrategy));
+      setPendingImport(null);
+  };
+
+  // --- Gallery Management ---
+  const updateSavedPose = (id: string, patch: Partial<SavedPose>) => {
+      setSavedPoses(prev => prev.map(p => p.id === id ? { ...p, ...patch } : p));
+  };
+
+  const openPoseActions = (id: string) => {
+      const pose = savedPoses.find(p => p.id === id);
+      if (!pose) return;
+      setPoseDraft({ name: pose.name, tags: (pose.tags ?? []).join(', ') });
+      setEditingPoseId(id);
+  };
+
+  const closePoseActions = () => {
+      if (editingPoseId) {
+          const tags = poseDraft.tags.split(',').map(t => t.trim()).filter(Boolean);
+          updateSavedPose(editingPoseId, { name: poseDraft.name.trim() || 'Untitled', tags: [...new Set(tags)] });
+      }
+      setEditingPoseId(null);
+  };
+
+  const deleteSavedPose = (id: string) => {
+      const index = savedPoses.findIndex(p => p.id === id);
+      if (index === -1) return;
+      setLastDeleted({ pose: savedPoses[index], index });
+      setSavedPoses(prev => prev.filter(p => p.id !== id));
+      setEditingPoseId(null);
+  };
+
+  const undoDelete = () => {
+      if (!lastDeleted) return;
+      setSavedPoses(prev => {
+          const next = [...prev];
+          next.splice(Math.min(lastDeleted.index, next.length), 0, lastDeleted.pose);
+          return next;
+      });
+      setLastDeleted(null);
+  };
+
+  // Moves a pose to the slot currently held by targetId
+  const moveSavedPose = (id: string, targetId: string) => {
+      setSavedPoses(prev => {
+          const from = prev.findIndex(p => p.id === id);
+          const to = prev.findIndex(p => p.id === targetId);
+          if (from === -1 || to === -1 || from === to) return prev;
+          const next = [...prev];
+          const [moved] = next.splice(from, 1);
+          next.splice(to, 0, moved);
+          return next;
+      });
+  };
+
+  const shiftSavedPose = (id: string, delta: number) => {
+      const index = savedPoses.findIndex(p => p.id === id);
+      const target = savedPoses[index + delta];
+      if (index !== -1 && target) moveSavedPose(id, target.id);
+  };
+
+  const startLongPress = (id: string) => {
+      cancelLongPress();
+      longPressFiredRef.current = false;
+      longPressTimerRef.current = setTimeout(() => {
+          longPressFiredRef.current = true;
+          openPoseActions(id);
+      }, 500);
+  };
+
+  const cancelLongPress = () => {
+      if (longPressTimerRef.current) clearTimeout(longPressTimerRef.current);
+      longPressTimerRef.current = null;
+  };
+
+  const showNotice = (text: string, isError = false) => {
+      if (noticeTimerRef.current) clearTimeout(noticeTimerRef.current);
+      setNotice({ text, isError });
+      noticeTimerRef.current = setTimeout(() => setNotice(null), isError ? 8000 : 2500);
+  };
+
+  const getJointIds = (group: THREE.Group) => {
+      const ids: string[] = [];
+      group.traverse(obj => { if (obj.userData.isJoint && obj.userData.id) ids.push(obj.userData.id); });
+      return ids;
+  };
+
+  const applyPoseJson = (text: string) => {
+      const creature = creatureRef.current;
+      if (!creature) return;
+      try {
+          const pose = parsePoseJson(text, getJointIds(creature));
+          stopPlayback();
+          recordHistory(() => {
+              applyPoseToRef(pose, creature);
+              updateConstraints([]);
+          });
+          showNotice("Pose applied");
+      } catch (err) {
+          showNotice(err instanceof Error ? err.message : String(err), true);
+      }
+  };
+
+  const pastePose = async () => {
+      try {
+          applyPoseJson(await navigator.clipboard.readText());
+      } catch (err) {
+          showNotice("Clipboard is not accessible, press Ctrl+V instead", true);
+      }
+  };
+
+  useEffect(() => {
+      const handlePaste = (e: ClipboardEvent) => {
+          if (isCanvasModeRef.current) return;
+          const target = e.target as HTMLElement | null;
+          if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+          const text = e.clipboardData?.getData('text');
+          if (!text) return;
+          e.preventDefault();
+          applyPoseJson(text);
+      };
+      window.addEventListener('paste', handlePaste);
+      return () => window.removeEventListener('paste', handlePaste);
+  }, []);
+
+  const handleDrop = async (e: React.DragEvent) => {
+      e.preventDefault();
+      const file = e.dataTransfer.files[0];
+      if (!file || isCanvasMode) return;
+      if (!file.name.toLowerCase().endsWith('.json') && file.type !== 'application/json') {
+          showNotice(`"${file.name}" is not a .json file`, true);
+          return;
+      }
+      let text: string;
+      try {
+          text = await file.text();
+      } catch (err) {
+          console.error(err);
+          showNotice(`Could not read "${file.name}"`, true);
+          return;
+      }
+      applyPoseJson(text);
+  };
+
+  const copyShareLink = async () => {
+      const creature = creatureRef.current;
+      const camera = cameraRef.current;
+      const controls = controlsRef.current;
+      if (!creature || !camera || !controls) return;
+      const code = encodeShareState({
+          pose: extractPose(creature),
+          scales: extractSegmentScales(creature),
+          camera: { position: camera.position.toArray(), zoom: camera.zoom, target: controls.target.toArray() },
+          theme,
+          showLabels,
+          rig: rigRef.current,
+          body: creature.quaternion.toArray(),
+          labels: labelsRef.current,
+          constraints: constraintsRef.current
+      });
+      const url = `${window.location.origin}${window.location.pathname}${SHARE_HASH_PREFIX}${code}`;
+      try {
+          await navigator.clipboard.writeText(url);
+          showNotice("Share link copied");
+      } catch (err) {
+          console.error(err);
+          showNotice("Could not copy the share link", true);
+      }
+  };
+
+  const applySharedLink = () => {
+      const creature = creatureRef.current;
+      const camera = cameraRef.current;
+      const controls = controlsRef.current;
+      if (!creature || !camera || !controls || !window.location.hash.startsWith(SHARE_HASH_PREFIX)) return;
+      try {
+          const state = decodeShareState(window.location.hash.slice(SHARE_HASH_PREFIX.length));
+          stopPlayback();
+          recordHistory(() => {
+              if (!rigsMatch(state.rig, rigRef.current)) rebuildRig(state.rig);
+              applyPoseToRef(state.pose, creature);
+              applySegmentScalesToRef(state.scales, creature);
+              creature.quaternion.fromArray(state.body).normalize();
+              updateConstraints(state.constraints);
+          });
+          setLabels(state.labels);
+          controls.target.fromArray(state.camera.target);
+          camera.position.fromArray(state.camera.position);
+          camera.zoom = state.camera.zoom;
+          camera.updateProjectionMatrix();
+          controls.update();
+          applyTheme(state.theme);
+          setShowLabels(state.showLabels);
+          showNotice("Loaded shared pose");
+      } catch (err) {
+          showNotice(err instanceof Error ? err.message : String(err), true);
+      }
+      // Drop the fragment so a reload restores the cached workspace instead
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  };
+
+  useEffect(() => {
+      applySharedLink();
+      window.addEventListener('hashchange', applySharedLink);
+      return () => window.removeEventListener('hashchange', applySharedLink);
+  }, []);
+
+  // --- Label Editing ---
+  const updateLabel = (id: string, patch: Partial<PoseLabel>) => {
+      setLabels(prev => prev.map(l => l.id === id ? { ...l, ...patch } : l));
+  };
+
+  const addLabel = () => {
+      setLabels(prev => [...prev, { id: crypto.randomUUID(), text: 'label', limbIndex: 0, jointIndex: 2, font: 'hand', size: DEFAULT_LABEL_SIZE }]);
+  };
+
+  const removeLabel = (id: string) => setLabels(prev => prev.filter(l => l.id !== id));
+
+  // Every knee and tip a label can be pinned to, as "limbIndex:jointIndex"
+  const getLabelAnchorOptions = () => {
+      if (!creatureRef.current) return [];
+      const ids = getJointIds(creatureRef.current);
+      return ids.map(id => {
+          const [, limb, , joint] = id.split('_').map(Number);
+          const isTip = !ids.includes(`limb_${limb}_joint_${joint + 1}`);
+          return { value: `${limb}:${joint}`, text: `Limb ${limb} ${isTip ? 'tip' : joint === 1 ? 'knee' : `joint ${joint}`}` };
+      });
+  };
+
+  // Resets the selected joints, or the whole pose and body orientation when nothing is selected
+  const resetPose = () => {
+      const creature = creatureRef.current;
+      if (!creature) return;
+      const rest = restPose(rigRef.current);
+      const selected = getSelectedJoints();
+      recordHistory(() => {
+          if (selected.length) {
+              applyPoseToRef(Object.fromEntries(selected.map(j => [j.userData.id, rest[j.userData.id]]).filter(([, r]) => r)), creature);
+              enforceConstraints(selected[0].userData.limbIndex);
+          } else {
+              applyPoseToRef(rest, creature);
+              creature.quaternion.identity();
+              updateConstraints([]);
+          }
+      });
+  };
   
   const copyPose = async () => {
       if (!creatureRef.current) return;
@@ -1082,6 +4153,11 @@ const App = () => {
             id: crypto.randomUUID(),
             name: `Pose ${new Date().toLocaleTimeString()}`,
             pose: poseData,
+            scales: extractSegmentScales(creatureRef.current),
+            labels,
+            constraints: constraints.length ? constraints : undefined,
+            body: creatureRef.current.quaternion.toArray(),
+            rig: rigRef.current,
             thumbnail: thumb,
             timestamp: Date.now(),
             type: 'manual'
@@ -1094,6 +4170,7 @@ const App = () => {
   };
 
   const isDark = theme === 'dark';
+  const isSelectedPinned = constraints.some(c => c.type === 'world' && selectedId?.startsWith(`limb_${c.limb}_`));
   const bgClass = isDark ? 'bg-black text-white' : 'bg-[#F2F2F7] text-black';
   
   // UI classes scaled down ~75%
@@ -1101,10 +4178,53 @@ const App = () => {
   const secondaryBtnClass = `flex items-center justify-center w-6 h-6 rounded-full transition-all active:scale-90 ${isDark ? 'hover:bg-white/10 text-white' : 'hover:bg-black/5 text-black'}`;
   const pillContainerClass = `flex items-center gap-1 p-1 rounded-full border backdrop-blur-md ${isDark ? 'bg-neutral-900/80 border-white/5' : 'bg-white/80 border-black/5'}`;
 
+  const panelClass = `flex flex-col gap-2 p-2 rounded-2xl border backdrop-blur-md ${isDark ? 'bg-neutral-900/80 border-white/5' : 'bg-white/80 border-black/5'}`;
+  const fieldClass = `text-[10px] rounded-md px-1 py-0.5 outline-none ${isDark ? 'bg-white/10 text-white' : 'bg-black/5 text-black'}`;
+
+  // Rig fields rebuild the creature, so they commit on blur or Enter rather than per keystroke.
+  // Keyed by value so undo and other rig changes refresh what they show.
+  const rigField = (id: string, value: number, min: number, max: number, step: number, commit: (value: number) => void) => (
+      <input
+          key={`${id}:${value}`}
+          type="number"
+          min={min}
+          max={max}
+          step={step}
+          defaultValue={value}
+          onBlur={e => {
+              const v = Number(e.target.value);
+              if (e.target.value === '' || !Number.isFinite(v) || v === value) { e.target.value = String(value); return; }
+              commit(Math.min(max, Math.max(min, v)));
+          }}
+          onKeyDown={e => {
+              if (e.key === 'Enter') e.currentTarget.blur();
+              if (e.key === 'Escape') { e.currentTarget.value = String(value); e.currentTarget.blur(); }
+          }}
+          className={`w-12 ${fieldClass}`}
+      />
+  );
+  const editLimbIndex = rigEditLimb !== null && rigEditLimb < rig.limbs.length ? rigEditLimb : null;
+  const editLimb = rig.limbs[editLimbIndex ?? 0];
+  const editKey = editLimbIndex ?? 'all';
+
   const allPoses = [...SYSTEM_PRESETS, ...savedPoses];
+  const galleryQueryText = galleryQuery.trim().toLowerCase();
+  // Favorites first; sort is stable so the saved order is kept within each group
+  const galleryPoses = allPoses
+      .filter(p => galleryFilter === 'all' || (galleryFilter === 'favorites' ? p.favorite : p.type === galleryFilter))
+      .filter(p => !galleryQueryText || p.name.toLowerCase().includes(galleryQueryText) || (p.tags ?? []).some(t => t.toLowerCase().includes(galleryQueryText)))
+      .sort((a, b) => Number(!!b.favorite) - Number(!!a.favorite));
+  const editingPose = savedPoses.find(p => p.id === editingPoseId);
+  const editingIndex = editingPose ? savedPoses.indexOf(editingPose) : -1;
+  const timelineDuration = keyframes.length ? keyframes[keyframes.length - 1].time : 0;
+  const selectedKeyframe = keyframes.find(k => k.id === selectedKeyframeId);
 
   return (
-    <div className={`relative w-full h-full overflow-hidden select-none transition-colors duration-500 ${bgClass}`}>
+    <div
+      className={`relative w-full h-full overflow-hidden select-none transition-colors duration-500 ${bgClass}`}
+      onDragOver={e => e.preventDefault()}
+      onDrop={handleDrop}
+    >
       <div 
         className="absolute inset-0 z-0 touch-none"
         ref={mountRef}
@@ -1114,69 +4234,646 @@ const App = () => {
         onPointerLeave={handlePointerUp}
       />
       
-      {!isCanvasMode && !isGalleryMode && INDIVIDUAL_LABELS.map((item, i) => (
-          <div key={`${item.limbIndex}-${item.jointIndex}`} ref={el => { labelRefs.current[i] = el; }} className={`absolute top-0 left-0 text-2xl font-hand leading-none pointer-events-none transition-all duration-300 ${isDark ? 'text-white/80' : 'text-black/80'}`} style={{ opacity: 0 }}>
+      {!isCanvasMode && !isGalleryMode && (
+          <svg className="absolute inset-0 w-full h-full pointer-events-none" fill="none" strokeWidth={1.5} strokeLinecap="round">
+              {constraints.map(c => (
+                  <g key={c.id} ref={el => { constraintMarkerRefs.current[c.id] = el; }} stroke="#007AFF" style={{ opacity: 0 }}>
+                      {c.type === 'tip'
+                          ? <rect x={-5} y={-5} width={10} height={10} transform="rotate(45)" />
+                          : <><circle r={7} /><circle r={2.5} fill="#007AFF" /></>}
+                  </g>
+              ))}
+              {labels.map(item => (
+                  <path
+                      key={item.id}
+                      ref={el => { leaderRefs.current[item.id] = el; }}
+                      stroke={item.color ?? 'currentColor'}
+                      className={`transition-opacity duration-300 ${isDark ? 'text-white/50' : 'text-black/50'}`}
+                      style={{ opacity: 0 }}
+                  />
+              ))}
+          </svg>
+      )}
+
+      {!isCanvasMode && !isGalleryMode && labels.map(item => (
+          <div
+              key={item.id}
+              ref={el => { labelRefs.current[item.id] = el; }}
+              className={`absolute top-0 left-0 leading-none whitespace-nowrap pointer-events-none transition-all duration-300 ${isDark ? 'text-white/80' : 'text-black/80'}`}
+              style={{ opacity: 0, fontFamily: LABEL_FONTS[item.font].css, fontSize: item.size, color: item.color }}
+          >
               {item.text}
           </div>
       ))}
 
+      {notice && (
+          <div className="absolute top-6 left-0 right-0 z-[70] flex justify-center pointer-events-none px-4">
+              <div className={`pointer-events-auto flex items-center gap-2 max-w-md px-4 py-2 rounded-2xl text-[11px] font-semibold backdrop-blur-md ${notice.isError ? 'bg-red-500/90 text-white' : (isDark ? 'bg-neutral-900/90 text-white' : 'bg-white/90 text-black')}`}>
+                  <span>{notice.text}</span>
+                  <button onClick={() => setNotice(null)} className="opacity-70"><X size={12} /></button>
+              </div>
+          </div>
+      )}
+
+      {exportProgress !== null && (
+          <div className="absolute inset-0 z-[60] flex items-end justify-center pb-28 touch-none">
+              <div className={`flex items-center gap-2 px-4 py-2 rounded-full text-[11px] font-semibold tabular-nums ${isDark ? 'bg-neutral-900/90 text-white' : 'bg-white/90 text-black'}`}>
+                  <RefreshCcw className="animate-spin" size={12} />
+                  Exporting {Math.round(exportProgress * 100)}%
+              </div>
+          </div>
+      )}
+
       {isGalleryMode && (
          <div className={`absolute inset-0 z-50 flex flex-col p-4 overflow-hidden ${bgClass} ${isDark ? 'bg-black/95' : 'bg-[#F2F2F7]/95'} backdrop-blur-sm`}>
              <div className="flex justify-between items-center mb-6">
-                 <h2 className="text-xl font-bold font-hand">Pose Gallery</h2>
-                 <button onClick={() => setIsGalleryMode(false)} className={`${isDark ? 'bg-white/10 text-white' : 'bg-black/10 text-black'} p-2 rounded-full`}><X size={20} /></button>
+                 <h2 className="text-xl font-bold font-hand">{galleryPurpose === 'keyframe' ? 'Add Keyframe' : 'Pose Gallery'}</h2>
+                 <button onClick={() => { closePoseActions(); setIsGalleryMode(false); }} className={`${isDark ? 'bg-white/10 text-white' : 'bg-black/10 text-black'} p-2 rounded-full`}><X size={20} /></button>
+             </div>
+             {galleryPurpose === 'apply' && (
+                 <div className="flex items-center gap-2 mb-3 text-[11px]">
+                     <button onClick={() => libraryInputRef.current?.click()} className={`flex items-center gap-1 px-3 py-1 rounded-full ${isDark ? 'bg-white/10' : 'bg-black/5'}`}><FileUp size={12} /> Import</button>
+                     <button onClick={exportPoseLibrary} disabled={savedPoses.length === 0} className={`flex items-center gap-1 px-3 py-1 rounded-full disabled:opacity-30 ${isDark ? 'bg-white/10' : 'bg-black/5'}`}><FileDown size={12} /> Export</button>
+                     <label className="flex items-center gap-1 opacity-60">
+                         <input type="checkbox" checked={includeThumbnails} onChange={e => setIncludeThumbnails(e.target.checked)} className="accent-[#007AFF]" />
+                         Thumbnails
+                     </label>
+                     <input ref={libraryInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleLibraryFile} />
+                 </div>
+             )}
+             {libraryError && (
+                 <div className="flex items-center justify-between gap-2 mb-3 px-3 py-2 rounded-xl text-[11px] bg-red-500/10 text-red-500">
+                     <span>{libraryError}</span>
+                     <button onClick={() => setLibraryError(null)}><X size={12} /></button>
+                 </div>
+             )}
+             {pendingImport && (
+                 <div className={`flex flex-wrap items-center gap-2 mb-3 px-3 py-2 rounded-xl text-[11px] ${isDark ? 'bg-white/10' : 'bg-black/5'}`}>
+                     <span className="font-semibold">Import {pendingImport.length} poses</span>
+                     <select value={importMode} onChange={e => setImportMode(e.target.value as LibraryImportMode)} className={fieldClass}>
+                         <option value="merge">Merge</option>
+                         <option value="replace">Replace all</option>
+                     </select>
+                     <select value={duplicateStrategy} disabled={importMode === 'replace'} onChange={e => setDuplicateStrategy(e.target.value as DuplicateStrategy)} className={`${fieldClass} disabled:opacity-30`}>
+                         <option value="skip">Skip duplicates</option>
+                         <option value="overwrite">Overwrite duplicates</option>
+                         <option value="keepBoth">Keep both</option>
+                     </select>
+                     <div className="flex gap-2 ml-auto">
+                         <button onClick={() => setPendingImport(null)} className="opacity-60">Cancel</button>
+                         <button onClick={confirmImport} className="font-semibold text-[#007AFF]">Import</button>
+                     </div>
+                 </div>
+             )}
+             <div className="flex items-center gap-2 mb-3">
+                 <div className={`flex flex-1 items-center gap-2 px-3 py-1.5 rounded-full ${isDark ? 'bg-white/10' : 'bg-black/5'}`}>
+                     <Search size={12} className="opacity-50" />
+                     <input value={galleryQuery} onChange={e => setGalleryQuery(e.target.value)} placeholder="Search names and tags" className="flex-1 bg-transparent outline-none text-[12px]" />
+                     {galleryQuery && <button onClick={() => setGalleryQuery('')} className="opacity-50"><X size={12} /></button>}
+                 </div>
              </div>
+             <div className="flex gap-1 mb-3 overflow-x-auto text-[11px]">
+                 {(['all', 'favorites', 'manual', 'generated', 'preset'] as GalleryFilter[]).map(f => (
+                     <button key={f} onClick={() => setGalleryFilter(f)} className={`shrink-0 px-3 py-1 rounded-full capitalize ${galleryFilter === f ? (isDark ? 'bg-white text-black' : 'bg-black text-white') : (isDark ? 'bg-white/10' : 'bg-black/5')}`}>{f}</button>
+                 ))}
+             </div>
+             {lastDeleted && (
+                 <div className={`flex items-center justify-between gap-2 mb-3 px-3 py-2 rounded-xl text-[11px] ${isDark ? 'bg-white/10' : 'bg-black/5'}`}>
+                     <span className="truncate">Deleted "{lastDeleted.pose.name}"</span>
+                     <button onClick={undoDelete} className="font-semibold text-[#007AFF]">Undo</button>
+                 </div>
+             )}
              <div className="flex-1 overflow-y-auto">
+                 {galleryPoses.length === 0 && (
+                     <div className="text-center text-[12px] opacity-40 mt-10">No poses match</div>
+                 )}
                  <div className="grid grid-cols-3 gap-2 pb-20">
-                     {allPoses.map((item) => (
-                         <button 
+                     {galleryPoses.map((item) => (
+                         <div 
                              key={item.id}
+                             role="button"
+                             draggable={!SYSTEM_PRESETS.includes(item)}
+                             onDragStart={e => { draggingPoseIdRef.current = item.id; e.dataTransfer.effectAllowed = 'move'; }}
+                             onDragOver={e => e.preventDefault()}
+                             onDrop={e => {
+                                 e.preventDefault();
+                                 e.stopPropagation();
+                                 if (draggingPoseIdRef.current) moveSavedPose(draggingPoseIdRef.current, item.id);
+                                 draggingPoseIdRef.current = null;
+                             }}
+                             onPointerDown={() => startLongPress(item.id)}
+                             onPointerUp={cancelLongPress}
+                             onPointerLeave={cancelLongPress}
+                             onPointerCancel={cancelLongPress}
+                             onContextMenu={e => { e.preventDefault(); openPoseActions(item.id); }}
                              onClick={() => {
-                                 if (creatureRef.current) applyPoseToRef(item.pose, creatureRef.current);
+                                 if (longPressFiredRef.current) {
+                                     longPressFiredRef.current = false;
+                                     return;
+                                 }
+                                 if (galleryPurpose === 'keyframe') addKeyframe(item);
+                                 else if (creatureRef.current) {
+                                     recordHistory(() => {
+                                         if (item.rig && !sameRig(item.rig, rigRef.current)) rebuildRig(item.rig);
+                                         applyPoseToRef(item.pose, creatureRef.current!);
+                                         if (item.scales) applySegmentScalesToRef(item.scales, creatureRef.current!);
+                                         if (item.body) creatureRef.current!.quaternion.fromArray(item.body).normalize();
+                                         updateConstraints(item.constraints ?? []);
+                                     });
+                                     if (item.labels) setLabels(item.labels);
+                                 }
                                  setIsGalleryMode(false);
                              }}
-                             className={`relative aspect-square rounded-xl overflow-hidden border transition-transform active:scale-95 ${isDark ? 'border-white/10 bg-white/5' : 'border-black/10 bg-black/5'}`}
+                             className={`relative aspect-square rounded-xl overflow-hidden border cursor-pointer transition-transform active:scale-95 ${isDark ? 'border-white/10 bg-white/5' : 'border-black/10 bg-black/5'}`}
                          >
                             {item.thumbnail ? (
-                                <img src={item.thumbnail} alt={item.name} className="w-full h-full object-cover" />
+                                <img src={item.thumbnail} alt={item.name} draggable={false} className="w-full h-full object-cover" style={{ WebkitTouchCallout: 'none' }} />
                             ) : (
                                 <div className="w-full h-full flex flex-col items-center justify-center p-2 opacity-50">
                                     <Tag size={24} />
                                     <span className="text-[10px] mt-1 text-center leading-tight">{item.name}</span>
                                 </div>
                             )}
+                            {item.thumbnail && (
+                                <div className={`absolute bottom-0 left-0 right-0 px-1.5 py-0.5 text-[9px] truncate ${isDark ? 'bg-black/60' : 'bg-white/70'}`}>
+                                    {item.name}{item.tags?.length ? <span className="opacity-50"> · {item.tags.join(', ')}</span> : null}
+                                </div>
+                            )}
+                            {item.favorite && (
+                                <Star size={10} className="absolute top-1 left-1 text-yellow-500 fill-yellow-500" />
+                            )}
                             {item.type === 'preset' && (
                                 <div className="absolute top-1 right-1 w-2 h-2 rounded-full bg-blue-500"></div>
                             )}
                             {item.type === 'generated' && (
                                 <div className="absolute top-1 right-1 w-2 h-2 rounded-full bg-purple-500"></div>
                             )}
-                         </button>
+                            {!SYSTEM_PRESETS.includes(item) && (
+                                <button
+                                    onClick={e => { e.stopPropagation(); openPoseActions(item.id); }}
+                                    onPointerDown={e => e.stopPropagation()}
+                                    className={`absolute bottom-4 right-1 p-0.5 rounded-full ${isDark ? 'bg-black/60' : 'bg-white/70'}`}
+                                >
+                                    <Ellipsis size={12} />
+                                </button>
+                            )}
+                         </div>
                      ))}
                  </div>
              </div>
+             {editingPose && (
+                 <div className="absolute inset-0 z-10 flex items-end justify-center bg-black/40" onClick={closePoseActions}>
+                     <div onClick={e => e.stopPropagation()} className={`w-full max-w-md m-4 mb-10 ${panelClass} p-4 gap-3`}>
+                         <input value={poseDraft.name} onChange={e => setPoseDraft({ ...poseDraft, name: e.target.value })} placeholder="Name" className={`text-[13px] py-1.5 px-2 ${fieldClass}`} />
+                         <input value={poseDraft.tags} onChange={e => setPoseDraft({ ...poseDraft, tags: e.target.value })} placeholder="Tags, comma separated" className={`text-[13px] py-1.5 px-2 ${fieldClass}`} />
+                         <div className="flex items-center gap-2">
+                             <button onClick={() => updateSavedPose(editingPose.id, { favorite: !editingPose.favorite })} className={secondaryBtnClass}>
+                                 <Star size={14} className={editingPose.favorite ? 'text-yellow-500 fill-yellow-500' : ''} />
+                             </button>
+                             <button onClick={() => shiftSavedPose(editingPose.id, -1)} disabled={editingIndex <= 0} className={`${secondaryBtnClass} disabled:opacity-30`}><ArrowLeft size={14} /></button>
+                             <button onClick={() => shiftSavedPose(editingPose.id, 1)} disabled={editingIndex >= savedPoses.length - 1} className={`${secondaryBtnClass} disabled:opacity-30`}><ArrowRight size={14} /></button>
+                             <button onClick={() => deleteSavedPose(editingPose.id)} className={`${secondaryBtnClass} text-red-500`}><Trash2 size={14} /></button>
+                             <button onClick={closePoseActions} className="ml-auto text-[12px] font-semibold text-[#007AFF]">Done</button>
+                         </div>
+                     </div>
+                 </div>
+             )}
          </div>
       )}
 
       {isCanvasMode && (
-          <div className={`absolute inset-0 z-50 cursor-crosshair touch-none ${bgClass}`}>
-              <canvas ref={canvasRef} className="w-full h-full" onMouseDown={startDrawing} onMouseMove={draw} onMouseUp={stopDrawing} onMouseLeave={stopDrawing} onTouchStart={startDrawing} onTouchMove={draw} onTouchEnd={stopDrawing} />
+          <div className={`absolute inset-0 z-50 cursor-crosshair touch-none ${sketchOverlay ? (isDark ? 'bg-black/40 text-white' : 'bg-white/50 text-black') : bgClass}`}>
+              {sketchReference && (
+                  <img
+                      src={sketchReference.src}
+                      alt=""
+                      draggable={false}
+                      className="absolute top-1/2 left-1/2 h-[80vh] w-auto max-w-none pointer-events-none select-none"
+                      style={{
+                          opacity: sketchReference.opacity,
+                          transform: `translate(-50%, -50%) translate(${sketchReference.x}px, ${sketchReference.y}px) scale(${sketchReference.scale})`
+                      }}
+                  />
+              )}
+              <canvas ref={canvasRef} className="relative w-full h-full" onMouseDown={startDrawing} onMouseMove={draw} onMouseUp={stopDrawing} onMouseLeave={stopDrawing} onTouchStart={startDrawing} onTouchMove={draw} onTouchEnd={stopDrawing} />
               <div className="absolute top-safe right-4 mt-12 flex flex-col gap-4">
-                  <button onClick={() => { setIsCanvasMode(false); setStrokeCount(0); strokesRef.current=[]; }} className={`${isDark ? 'bg-white/10 hover:bg-white/20 text-white' : 'bg-black/10 hover:bg-black/20 text-black'} p-2 rounded-full`}><X size={20} /></button>
+                  <button onClick={closeCanvas} className={`${isDark ? 'bg-white/10 hover:bg-white/20 text-white' : 'bg-black/10 hover:bg-black/20 text-black'} p-2 rounded-full`}><X size={20} /></button>
+                  <button onClick={undoStroke} disabled={!strokeCount} className={`${isDark ? 'bg-white/10 hover:bg-white/20 text-white' : 'bg-black/10 hover:bg-black/20 text-black'} p-2 rounded-full disabled:opacity-30`}><Undo2 size={20} /></button>
                   <button onClick={clearCanvas} className={`${isDark ? 'bg-white/10 hover:bg-white/20 text-white' : 'bg-black/10 hover:bg-black/20 text-black'} p-2 rounded-full`}><Trash2 size={20} /></button>
+                  {isVisionConfigured(visionConfig) && (
+                      <button onClick={() => setRefineSketch(!refineSketch)} className={`${refineSketch ? (isDark ? 'bg-white text-black' : 'bg-black text-white') : (isDark ? 'bg-white/10 hover:bg-white/20 text-white' : 'bg-black/10 hover:bg-black/20 text-black')} p-2 rounded-full`}><Sparkles size={20} /></button>
+                  )}
+                  <button onClick={() => setIsVisionPanelOpen(!isVisionPanelOpen)} className={`${isVisionPanelOpen ? (isDark ? 'bg-white text-black' : 'bg-black text-white') : (isDark ? 'bg-white/10 hover:bg-white/20 text-white' : 'bg-black/10 hover:bg-black/20 text-black')} p-2 rounded-full`}><Server size={20} /></button>
+                  <button onClick={() => setSketchOverlay(!sketchOverlay)} className={`${sketchOverlay ? (isDark ? 'bg-white text-black' : 'bg-black text-white') : (isDark ? 'bg-white/10 hover:bg-white/20 text-white' : 'bg-black/10 hover:bg-black/20 text-black')} p-2 rounded-full`}><Layers size={20} /></button>
+                  <button onClick={() => referenceInputRef.current?.click()} className={`${sketchReference ? (isDark ? 'bg-white text-black' : 'bg-black text-white') : (isDark ? 'bg-white/10 hover:bg-white/20 text-white' : 'bg-black/10 hover:bg-black/20 text-black')} p-2 rounded-full`}><ImagePlus size={20} /></button>
+                  <input
+                      ref={referenceInputRef}
+                      type="file"
+                      accept="image/*"
+                      className="hidden"
+                      onChange={e => {
+                          const file = e.target.files?.[0];
+                          e.target.value = '';
+                          if (!file) return;
+                          setSketchReference({ src: URL.createObjectURL(file), opacity: 0.5, scale: 1, x: 0, y: 0 });
+                      }}
+                  />
               </div>
-              <div className="absolute bottom-12 left-0 right-0 flex justify-center items-center pointer-events-none">
-                 {isGenerating && (<div className={`pointer-events-auto flex items-center justify-center gap-2 px-6 py-3 rounded-full font-bold shadow-none transition-all bg-transparent ${isDark ? 'text-white' : 'text-black'}`}><RefreshCcw className="animate-spin" size={20} /></div>)}
+              {sketchReference && (
+                  <div className={`absolute top-safe left-4 mt-12 w-56 cursor-auto ${panelClass}`}>
+                      <div className="flex items-center justify-between text-[10px]">
+                          <span className="font-semibold">Reference</span>
+                          <button onClick={() => setSketchReference(null)} className="text-[#FF3B30] font-semibold">Remove</button>
+                      </div>
+                      {([
+                          ['Opacity', 'opacity', 0.05, 1, 0.05],
+                          ['Size', 'scale', 0.2, 3, 0.05],
+                          ['X', 'x', -600, 600, 1],
+                          ['Y', 'y', -600, 600, 1]
+                      ] as const).map(([label, key, min, max, step]) => (
+                          <div key={key} className="flex items-center gap-2 text-[10px]">
+                              <span className="w-12 opacity-60">{label}</span>
+                              <input
+                                  type="range"
+                                  min={min}
+                                  max={max}
+                                  step={step}
+                                  value={sketchReference[key]}
+                                  onChange={e => setSketchReference({ ...sketchReference, [key]: parseFloat(e.target.value) })}
+                                  className="flex-1"
+                              />
+                          </div>
+                      ))}
+                  </div>
+              )}
+              {isVisionPanelOpen && (
+                  <div className={`absolute top-safe right-16 mt-12 w-64 cursor-auto ${panelClass}`}>
+                      <div className="flex items-center gap-2 text-[10px]">
+                          <span className="w-14 opacity-60">Backend</span>
+                          <select
+                              value={visionConfig.provider}
+                              onChange={e => {
+                                  const provider = e.target.value as VisionProvider;
+                                  // A key belongs to one service; it is never carried over to another
+                                  setVisionConfig({ provider, model: VISION_PROVIDERS[provider].model, endpoint: VISION_PROVIDERS[provider].endpoint, apiKey: '' });
+                              }}
+                              className={`flex-1 ${fieldClass}`}
+                          >
+                              {(Object.keys(VISION_PROVIDERS) as VisionProvider[]).map(p => <option key={p} value={p}>{VISION_PROVIDERS[p].name}</option>)}
+                          </select>
+                      </div>
+                      <div className="flex items-center gap-2 text-[10px]">
+                          <span className="w-14 opacity-60">Model</span>
+                          <input value={visionConfig.model} onChange={e => setVisionConfig({ ...visionConfig, model: e.target.value })} placeholder="default" className={`flex-1 min-w-0 ${fieldClass}`} />
+                      </div>
+                      {visionConfig.provider !== 'gemini' && (
+                          <div className="flex items-center gap-2 text-[10px]">
+                              <span className="w-14 opacity-60">Endpoint</span>
+                              <input value={visionConfig.endpoint} onChange={e => setVisionConfig({ ...visionConfig, endpoint: e.target.value })} className={`flex-1 min-w-0 ${fieldClass}`} />
+                          </div>
+                      )}
+                      {visionConfig.provider !== 'stub' && (
+                          <div className="flex items-center gap-2 text-[10px]">
+                              <span className="w-14 opacity-60">API key</span>
+                              <input type="password" value={visionConfig.apiKey} onChange={e => setVisionConfig({ ...visionConfig, apiKey: e.target.value })} placeholder={visionConfig.provider === 'gemini' && process.env.API_KEY ? 'from .env.local' : VISION_PROVIDERS[visionConfig.provider].needsKey ? 'required' : 'optional'} className={`flex-1 min-w-0 ${fieldClass}`} />
+                          </div>
+                      )}
+                      <div className="text-[9px] opacity-40">Stored in this browser only</div>
+                  </div>
+              )}
+              <div className="absolute bottom-12 left-0 right-0 flex flex-col gap-3 justify-center items-center pointer-events-none">
+                 {poseCandidates.length > 0 && !isGenerating && (
+                     <div className="pointer-events-auto flex gap-2">
+                         {poseCandidates.map(candidate => (
+                             <button
+                                 key={candidate.id}
+                                 onClick={() => pickPoseCandidate(candidate)}
+                                 className={`relative w-24 h-24 rounded-xl overflow-hidden border transition-transform active:scale-95 ${isDark ? 'border-white/10 bg-neutral-900' : 'border-black/10 bg-white'}`}
+                             >
+                                 <img src={candidate.thumbnail} alt={candidate.name} draggable={false} className="w-full h-full object-cover" />
+                                 <div className={`absolute bottom-0 left-0 right-0 px-1.5 py-0.5 text-[9px] truncate ${isDark ? 'bg-black/60' : 'bg-white/70'}`}>
+                                     {candidate.name.split(' · ').pop()}
+                                 </div>
+                             </button>
+                         ))}
+                     </div>
+                 )}
+                 {!isGenerating && strokeCount === 0 && (
+                     <form
+                         onSubmit={e => { e.preventDefault(); generatePoseCandidates(); }}
+                         className={`pointer-events-auto flex items-center gap-2 w-[min(92vw,420px)] pl-4 pr-1 py-1 rounded-full border cursor-auto ${isDark ? 'bg-neutral-900/90 border-white/10 text-white' : 'bg-white/90 border-black/10 text-black'}`}
+                     >
+                         <input
+                             value={posePrompt}
+                             onChange={e => setPosePrompt(e.target.value)}
+                             placeholder="Or describe a pose: arms up, legs crossed"
+                             className="flex-1 min-w-0 bg-transparent text-[13px] outline-none"
+                         />
+                         <button type="submit" disabled={!posePrompt.trim()} className={`p-2 rounded-full disabled:opacity-30 ${isDark ? 'bg-white text-black' : 'bg-black text-white'}`}><Send size={14} /></button>
+                     </form>
+                 )}
+                 {promptError && !isGenerating && (
+                     <div className={`pointer-events-auto flex items-center gap-3 max-w-[min(92vw,480px)] px-4 py-2 rounded-2xl text-[12px] ${isDark ? 'bg-neutral-900/90 text-white' : 'bg-white/90 text-black'}`}>
+                         <span className="flex-1 text-[#FF3B30]">{promptError}</span>
+                         <button onClick={generatePoseCandidates} className="font-semibold text-[#007AFF]">Retry</button>
+                     </div>
+                 )}
+                 {isGenerating && (
+                     <div className={`pointer-events-auto flex items-center justify-center gap-2 px-6 py-3 rounded-full font-bold shadow-none transition-all bg-transparent ${isDark ? 'text-white' : 'text-black'}`}>
+                         <RefreshCcw className="animate-spin" size={20} />
+                         <button onClick={cancelSketchRequest} className="text-[12px] font-semibold text-[#007AFF]">Cancel</button>
+                     </div>
+                 )}
+                 {!isGenerating && !sketchError && strokeCount > 0 && (
+                     <div className="pointer-events-auto flex flex-col items-center gap-2">
+                         <button onClick={() => analyzeSketchAndApply()} className={`flex items-center gap-2 px-5 py-2 rounded-full text-[13px] font-semibold transition-all active:scale-95 ${isDark ? 'bg-white text-black' : 'bg-black text-white'}`}>
+                             <Wand size={16} /> Generate
+                         </button>
+                         <span className="text-[10px] opacity-50">
+                             {strokeCount} of {rig.limbs.length} limbs · Drag dots to fix joints · Tap a limb to redraw it
+                         </span>
+                     </div>
+                 )}
+                 {sketchError && !isGenerating && (
+                     <div className={`pointer-events-auto flex items-center gap-3 max-w-[min(92vw,480px)] px-4 py-2 rounded-2xl text-[12px] ${isDark ? 'bg-neutral-900/90 text-white' : 'bg-white/90 text-black'}`}>
+                         <span className="flex-1 text-[#FF3B30]">{sketchError}</span>
+                         <button onClick={() => analyzeSketchAndApply(true)} className="font-semibold text-[#007AFF]">Retry</button>
+                         <button onClick={() => analyzeSketchAndApply(false)} className="font-semibold whitespace-nowrap opacity-60">Use sketch</button>
+                     </div>
+                 )}
               </div>
           </div>
       )}
 
+       {selectionBox && (
+           <div
+               className="absolute z-30 border border-[#007AFF] bg-[#007AFF]/10 pointer-events-none"
+               style={{
+                   left: Math.min(selectionBox.x0, selectionBox.x1),
+                   top: Math.min(selectionBox.y0, selectionBox.y1),
+                   width: Math.abs(selectionBox.x1 - selectionBox.x0),
+                   height: Math.abs(selectionBox.y1 - selectionBox.y0)
+               }}
+           />
+       )}
+
+       {!isCanvasMode && !isGalleryMode && selectedId && (
+           <div className={`absolute top-safe right-4 mt-12 z-40 w-60 pointer-events-auto ${panelClass}`}>
+               <div className="flex items-center gap-2 text-[10px]">
+                   <span className="flex-1 font-semibold truncate">
+                       {selectedId.replace(/^limb_(\d+)_joint_(\d+)$/, 'Limb $1 · joint $2')}
+                       {selectedCount > 1 && <span className="font-normal opacity-60"> +{selectedCount - 1}</span>}
+                   </span>
+                   <select value={angleUnit} onChange={e => changeAngleUnit(e.target.value as AngleUnit)} className={fieldClass}>
+                       <option value="deg">deg</option>
+                       <option value="rad">rad</option>
+                   </select>
+                   <button onClick={clearSelection} className="opacity-50"><X size={12} /></button>
+               </div>
+               {AXES.map((axis, i) => {
+                   const limit = angleUnit === 'deg' ? 180 : Math.PI;
+                   return (
+                       <div key={axis} className="flex items-center gap-2 text-[10px]">
+                           <span className="w-3 uppercase opacity-60">{axis}</span>
+                           <input
+                               ref={el => { inspectorSliderRefs.current[i] = el; }}
+                               type="range"
+                               min={-limit}
+                               max={limit}
+                               step={angleUnit === 'deg' ? 1 : 0.01}
+                               onPointerDown={beginHistoryStep}
+                               onPointerUp={commitHistoryStep}
+                               onBlur={commitHistoryStep}
+                               onChange={e => setJointAngle(axis, Number(e.currentTarget.value))}
+                               className="flex-1 accent-[#007AFF]"
+                           />
+                           <input
+                               ref={el => { inspectorFieldRefs.current[i] = el; }}
+                               type="number"
+                               step={angleUnit === 'deg' ? 1 : 0.01}
+                               onFocus={() => { angleFieldJointsRef.current = getSelectedJoints(); }}
+                               onBlur={e => { if (e.currentTarget.value.trim()) setJointAngle(axis, Number(e.currentTarget.value), angleFieldJointsRef.current); }}
+                               onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                               className={`w-14 ${fieldClass}`}
+                           />
+                       </div>
+                   );
+               })}
+               <div className="flex items-center gap-1">
+                   <button onClick={selectWholeLimbs} className={secondaryBtnClass}><Combine size={12} /></button>
+                   <button onClick={copyRotation} className={secondaryBtnClass}><Copy size={12} /></button>
+                   <button onClick={pasteRotation} className={secondaryBtnClass}><ClipboardPaste size={12} /></button>
+                   <button onClick={() => recordHistory(snapToGrid)} className={secondaryBtnClass}><Grid3X3 size={12} /></button>
+                   <button onClick={() => recordHistory(mirrorPose)} className={secondaryBtnClass}><FlipHorizontal2 size={12} /></button>
+                   <button onClick={resetPose} className={secondaryBtnClass}><RefreshCcw size={12} /></button>
+                   <button onClick={togglePin} className={secondaryBtnClass}>{isSelectedPinned ? <PinOff size={12} /> : <Pin size={12} />}</button>
+                   <button onClick={unlinkLimb} className={secondaryBtnClass}><Unlink size={12} /></button>
+               </div>
+               <div className="text-[9px] opacity-40">Tab joints · ←→ Z · ↑↓ X · PgUp/PgDn Y · Shift fine · Shift-click or Shift-drag to select more · Drop a tip on another to link them</div>
+           </div>
+       )}
+
        {!isCanvasMode && !isGalleryMode && (
        <div className="absolute bottom-10 left-0 right-0 flex flex-col items-center gap-3 z-40 pointer-events-none">
+            {isExportOpen && (
+                <div className={`pointer-events-auto w-[min(92vw,320px)] ${panelClass}`}>
+                    <div className="grid grid-cols-2 gap-x-2 gap-y-1 items-center text-[10px]">
+                        <span className="opacity-60">Source</span>
+                        <select value={exportSettings.source} onChange={e => setExportSettings({ ...exportSettings, source: e.target.value as ExportSettings['source'] })} className={fieldClass}>
+                            <option value="turntable">Turntable</option>
+                            <option value="timeline" disabled={keyframes.length < 2}>Timeline</option>
+                        </select>
+                        <span className="opacity-60">Format</span>
+                        <select value={exportSettings.format} onChange={e => setExportSettings({ ...exportSettings, format: e.target.value as ExportSettings['format'] })} className={fieldClass}>
+                            <option value="webm">WebM</option>
+                            <option value="gif">GIF</option>
+                        </select>
+                        <span className="opacity-60">Frame rate</span>
+                        <select value={exportSettings.fps} onChange={e => setExportSettings({ ...exportSettings, fps: Number(e.target.value) })} className={fieldClass}>
+                            {[12, 15, 24, 30].map(fps => <option key={fps} value={fps}>{fps} fps</option>)}
+                        </select>
+                        <span className="opacity-60">Duration (s)</span>
+                        <input type="number" min={0.5} max={60} step={0.5} value={exportSettings.duration} onChange={e => setExportSettings({ ...exportSettings, duration: Math.min(60, Math.max(0.5, Number(e.target.value) || 0.5)) })} className={fieldClass} />
+                        <span className="opacity-60">Width</span>
+                        <select value={exportSettings.width} onChange={e => setExportSettings({ ...exportSettings, width: Number(e.target.value) })} className={fieldClass}>
+                            <option value={0}>Screen</option>
+                            {[480, 720, 1080].map(w => <option key={w} value={w}>{w}px</option>)}
+                        </select>
+                        <span className="opacity-60">Background</span>
+                        <select value={exportSettings.transparent ? 'transparent' : 'solid'} onChange={e => setExportSettings({ ...exportSettings, transparent: e.target.value === 'transparent' })} className={fieldClass}>
+                            <option value="solid">Solid</option>
+                            <option value="transparent">Transparent</option>
+                        </select>
+                        <span className="opacity-60">Burn in labels</span>
+                        <input type="checkbox" checked={exportSettings.burnLabels} onChange={e => setExportSettings({ ...exportSettings, burnLabels: e.target.checked })} className="justify-self-start accent-[#007AFF]" />
+                    </div>
+                    <button onClick={exportAnimation} disabled={exportProgress !== null} className={`text-[11px] font-semibold py-1 rounded-full disabled:opacity-30 ${isDark ? 'bg-white text-black' : 'bg-black text-white'}`}>Export</button>
+                    <div className={`h-px ${isDark ? 'bg-white/10' : 'bg-black/10'}`}></div>
+                    <div className="flex items-center gap-2 text-[10px]">
+                        <select value={modelExport.binary ? 'glb' : 'gltf'} onChange={e => setModelExport({ ...modelExport, binary: e.target.value === 'glb' })} className={fieldClass}>
+                            <option value="glb">GLB</option>
+                            <option value="gltf">glTF</option>
+                        </select>
+                        <label className="flex items-center gap-1 opacity-60">
+                            <input type="checkbox" checked={modelExport.includeClips} onChange={e => setModelExport({ ...modelExport, includeClips: e.target.checked })} className="accent-[#007AFF]" />
+                            Poses as clips
+                        </label>
+                        <button onClick={exportModel} className={`ml-auto ${secondaryBtnClass}`}><Box size={12} /></button>
+                    </div>
+                    <div className="flex items-center gap-2 text-[10px]">
+                        <select value={pageSize} onChange={e => setPageSize(e.target.value)} className={fieldClass}>
+                            {Object.entries(PAGE_SIZES).map(([key, page]) => <option key={key} value={key}>{page.label}</option>)}
+                        </select>
+                        <select value={vectorBackground} onChange={e => setVectorBackground(e.target.value as VectorBackground)} className={fieldClass}>
+                            <option value="paper">Theme background</option>
+                            <option value="white">White</option>
+                            <option value="none">No background</option>
+                        </select>
+                        <button onClick={exportSvg} className={`ml-auto font-semibold px-2 py-0.5 rounded-full ${isDark ? 'bg-white/10' : 'bg-black/5'}`}>SVG</button>
+                        <button onClick={printPdf} className={`font-semibold px-2 py-0.5 rounded-full ${isDark ? 'bg-white/10' : 'bg-black/5'}`}>PDF</button>
+                    </div>
+                </div>
+            )}
+            {isRigEditorOpen && (
+                <div className={`pointer-events-auto w-[min(92vw,420px)] max-h-[40vh] overflow-y-auto ${panelClass}`}>
+                    <div className="flex items-center gap-2 text-[10px]">
+                        <span className="opacity-60">Limbs</span>
+                        <select value={rig.limbs.length} onChange={e => setRigLimbCount(Number(e.target.value))} className={fieldClass}>
+                            {[...new Set([...RIG_LIMB_COUNTS, rig.limbs.length])].sort((a, b) => a - b).map(n => <option key={n} value={n}>{n}</option>)}
+                        </select>
+                        <span className="opacity-60">Edit</span>
+                        <select value={editLimbIndex ?? ''} onChange={e => setRigEditLimb(e.target.value === '' ? null : Number(e.target.value))} className={fieldClass}>
+                            <option value="">All limbs</option>
+                            {rig.limbs.map((_, i) => <option key={i} value={i}>Limb {i}</option>)}
+                        </select>
+                        <button onClick={() => applyRig(DEFAULT_RIG)} className="ml-auto opacity-50">Reset</button>
+                    </div>
+                    <div className="flex items-center gap-2 text-[10px]">
+                        {editLimbIndex !== null && (
+                            <>
+                                <span className="opacity-60">Azimuth</span>
+                                {rigField(`az:${editKey}`, Math.round(THREE.MathUtils.radToDeg(editLimb.azimuth)), -360, 360, 5, v => editRigLimbs(editLimbIndex, limb => ({ ...limb, azimuth: THREE.MathUtils.degToRad(v) })))}
+                                <span className="opacity-60">Elevation</span>
+                                {rigField(`el:${editKey}`, Math.round(THREE.MathUtils.radToDeg(editLimb.elevation)), -90, 90, 5, v => editRigLimbs(editLimbIndex, limb => ({ ...limb, elevation: THREE.MathUtils.degToRad(v) })))}
+                            </>
+                        )}
+                        <span className="opacity-60">Segments</span>
+                        <select value={editLimb.segments.length} onChange={e => editRigLimbs(editLimbIndex, limb => withSegmentCount(limb, Number(e.target.value)))} className={fieldClass}>
+                            {Array.from({ length: RIG_MAX_SEGMENTS - RIG_MIN_SEGMENTS + 1 }, (_, i) => RIG_MIN_SEGMENTS + i).map(n => <option key={n} value={n}>{n}</option>)}
+                        </select>
+                        <span className="opacity-60">Knees bend</span>
+                        <select
+                            value={Object.keys(RIG_POLES).find(key => RIG_POLES[key].pole.join() === editLimb.pole?.join()) ?? ''}
+                            onChange={e => editRigLimbs(editLimbIndex, limb => ({ ...limb, pole: RIG_POLES[e.target.value]?.pole }))}
+                            className={fieldClass}
+                        >
+                            <option value="">As posed</option>
+                            {Object.entries(RIG_POLES).map(([key, { label }]) => <option key={key} value={key}>{label}</option>)}
+                        </select>
+                    </div>
+                    {editLimb.segments.map((seg, i) => (
+                        <div key={i} className="flex items-center gap-2 text-[10px]">
+                            <span className="w-14 opacity-60">Segment {i + 1}</span>
+                            <span className="opacity-60">Length</span>
+                            {rigField(`len:${editKey}:${i}`, seg.length, 0.2, 5, 0.1, v => editRigLimbs(editLimbIndex, limb => withSegment(limb, i, { length: v })))}
+                            <span className="opacity-60">Thickness</span>
+                            {rigField(`thick:${editKey}:${i}`, seg.thickness, 0.01, 0.3, 0.01, v => editRigLimbs(editLimbIndex, limb => withSegment(limb, i, { thickness: v })))}
+                            <span className="opacity-60">Max bend</span>
+                            {rigField(`bend:${editKey}:${i}`, Math.round(THREE.MathUtils.radToDeg(seg.maxBend ?? Math.PI)), 5, 180, 5, v => editRigLimbs(editLimbIndex, limb => withSegment(limb, i, { maxBend: v >= 180 ? undefined : THREE.MathUtils.degToRad(v) })))}
+                        </div>
+                    ))}
+                </div>
+            )}
+            {isLabelEditorOpen && (
+                <div className={`pointer-events-auto w-[min(92vw,420px)] max-h-[40vh] overflow-y-auto ${panelClass}`}>
+                    {labels.map(label => (
+                        <div key={label.id} className="flex items-center gap-1 text-[10px]">
+                            <input value={label.text} onChange={e => updateLabel(label.id, { text: e.target.value })} className={`flex-1 min-w-0 ${fieldClass}`} />
+                            <select value={`${label.limbIndex}:${label.jointIndex}`} onChange={e => { const [limbIndex, jointIndex] = e.target.value.split(':').map(Number); updateLabel(label.id, { limbIndex, jointIndex }); }} className={fieldClass}>
+                                {getLabelAnchorOptions().map(o => <option key={o.value} value={o.value}>{o.text}</option>)}
+                            </select>
+                            <select value={label.font} onChange={e => updateLabel(label.id, { font: e.target.value as LabelFont })} className={fieldClass}>
+                                {(Object.keys(LABEL_FONTS) as LabelFont[]).map(f => <option key={f} value={f}>{LABEL_FONTS[f].name}</option>)}
+                            </select>
+                            <input type="number" min={8} max={96} value={label.size} onChange={e => updateLabel(label.id, { size: Math.min(96, Math.max(8, Number(e.target.value) || DEFAULT_LABEL_SIZE)) })} className={`w-10 ${fieldClass}`} />
+                            <input type="color" value={label.color ?? (isDark ? '#ffffff' : '#000000')} onChange={e => updateLabel(label.id, { color: e.target.value })} className="w-5 h-5 rounded bg-transparent" />
+                            {label.color && <button onClick={() => updateLabel(label.id, { color: undefined })} className="opacity-50"><X size={10} /></button>}
+                            <button onClick={() => removeLabel(label.id)} className={secondaryBtnClass}><Trash2 size={12} /></button>
+                        </div>
+                    ))}
+                    <div className="flex items-center gap-2 text-[10px]">
+                        <button onClick={addLabel} className={`flex items-center gap-1 px-2 py-0.5 rounded-full ${isDark ? 'bg-white/10' : 'bg-black/5'}`}><Plus size={10} /> Add label</button>
+                        <button onClick={() => setLabels(DEFAULT_LABELS)} className="ml-auto opacity-50">Reset</button>
+                    </div>
+                </div>
+            )}
+            {isTimelineOpen && (
+                <div className={`pointer-events-auto w-[min(92vw,420px)] ${panelClass}`}>
+                    <div className="flex items-center gap-1">
+                        <button onClick={togglePlayback} disabled={keyframes.length < 2} className={`${secondaryBtnClass} disabled:opacity-30`}>{isPlaying ? <Pause size={12} /> : <Play size={12} />}</button>
+                        <select value={playbackMode} onChange={e => setPlaybackMode(e.target.value as PlaybackMode)} className={fieldClass}>
+                            <option value="loop">Loop</option>
+                            <option value="pingpong">Ping-pong</option>
+                            <option value="once">Once</option>
+                        </select>
+                        <span ref={timeReadoutRef} className="ml-auto text-[10px] tabular-nums opacity-60">{playbackRef.current.time.toFixed(2)}s</span>
+                        <button onClick={() => { setGalleryPurpose('keyframe'); setIsGalleryMode(true); }} className={secondaryBtnClass}><Plus size={12} /></button>
+                    </div>
+                    <div className="relative h-8 mx-4">
+                        {keyframes.length === 0 && (
+                            <div className="absolute inset-0 flex items-center justify-center text-[10px] opacity-40">Add poses from the gallery</div>
+                        )}
+                        {keyframes.map(k => (
+                            <button
+                                key={k.id}
+                                onClick={() => { setSelectedKeyframeId(k.id); scrubTimeline(k.time); }}
+                                style={{ left: `${timelineDuration > 0 ? (k.time / timelineDuration) * 100 : 0}%` }}
+                                className={`absolute top-0 -translate-x-1/2 w-8 h-8 rounded-md overflow-hidden border-2 ${k.id === selectedKeyframeId ? 'border-[#007AFF]' : (isDark ? 'border-white/10 bg-white/5' : 'border-black/10 bg-black/5')}`}
+                            >
+                                {k.thumbnail ? <img src={k.thumbnail} alt={k.name} className="w-full h-full object-cover" /> : <Tag size={12} className="m-auto opacity-50" />}
+                            </button>
+                        ))}
+                    </div>
+                    <input
+                        ref={scrubRef}
+                        type="range"
+                        min={0}
+                        max={timelineDuration}
+                        step={0.01}
+                        defaultValue={playbackRef.current.time}
+                        disabled={keyframes.length === 0}
+                        onChange={e => scrubTimeline(Number(e.currentTarget.value))}
+                        className="w-full accent-[#007AFF]"
+                    />
+                    {selectedKeyframe && (
+                        <div className="flex items-center gap-2 text-[10px]">
+                            <span className="flex-1 truncate opacity-60">{selectedKeyframe.name}</span>
+                            <input
+                                type="number"
+                                min={0}
+                                step={0.1}
+                                value={selectedKeyframe.time}
+                                onChange={e => updateKeyframe(selectedKeyframe.id, { time: Math.max(0, Number(e.target.value) || 0) })}
+                                className={`w-12 ${fieldClass}`}
+                            />
+                            <select value={selectedKeyframe.easing} onChange={e => updateKeyframe(selectedKeyframe.id, { easing: e.target.value as EasingName })} className={fieldClass}>
+                                {(Object.keys(EASINGS) as EasingName[]).map(name => <option key={name} value={name}>{name}</option>)}
+                            </select>
+                            <button onClick={() => removeKeyframe(selectedKeyframe.id)} className={secondaryBtnClass}><Trash2 size={12} /></button>
+                        </div>
+                    )}
+                </div>
+            )}
             <div className={`pointer-events-auto ${pillContainerClass}`}>
+                  <button onClick={undo} disabled={!historyState.canUndo} className={`${secondaryBtnClass} disabled:opacity-30`}><Undo2 size={12} /></button>
+                  <button onClick={redo} disabled={!historyState.canRedo} className={`${secondaryBtnClass} disabled:opacity-30`}><Redo2 size={12} /></button>
                   <button onClick={copyPose} className={secondaryBtnClass}>{copied ? <Check size={12} className="text-green-500"/> : <Copy size={12} />}</button>
+                  <button onClick={pastePose} className={secondaryBtnClass}><ClipboardPaste size={12} /></button>
                   <button onClick={generateRandomPose} className={secondaryBtnClass}><Shuffle size={12} /></button>
+                  <button onClick={() => recordHistory(mirrorPose)} className={secondaryBtnClass}><FlipHorizontal2 size={12} /></button>
+                  <button onClick={copyShareLink} className={secondaryBtnClass}><Share2 size={12} /></button>
                   <button onClick={saveSnapshot} className={secondaryBtnClass}><Download size={12} /></button>
+                  <button onClick={() => setIsExportOpen(!isExportOpen)} className={secondaryBtnClass}><Video size={12} /></button>
             </div>
             <div className="flex items-center gap-3 pointer-events-auto">
                  <button 
@@ -1191,12 +4888,18 @@ const App = () => {
                  >
                     <Tag size={16} strokeWidth={2} />
                  </button>
+                 <button onClick={() => setIsLabelEditorOpen(!isLabelEditorOpen)} className={iconBtnClass(isLabelEditorOpen)}><Type size={16} strokeWidth={2} /></button>
                  <button onClick={() => setGrabEnabled(!grabEnabled)} className={iconBtnClass(grabEnabled)}><Hand size={16} strokeWidth={2} /></button>
+                 <button onClick={() => setIsRigEditorOpen(!isRigEditorOpen)} className={iconBtnClass(isRigEditorOpen)}><Bone size={16} strokeWidth={2} /></button>
                  <button onClick={toggleTheme} className={iconBtnClass(false)}>
                     {isDark ? <Moon size={16} strokeWidth={2} /> : <Sun size={16} strokeWidth={2} />}
                  </button>
                  <button onClick={() => setSnapEnabled(!snapEnabled)} className={iconBtnClass(snapEnabled)}><Grid3X3 size={16} strokeWidth={2} /></button>
-                 <button onClick={() => setIsGalleryMode(true)} className={iconBtnClass(false)}><ImageIcon size={16} strokeWidth={2} /></button>
+                 <button onClick={cycleSymmetry} className={iconBtnClass(symmetryMode !== 'off')}><Columns2 size={16} strokeWidth={2} /></button>
+                 <button onClick={() => setIsBodyMode(!isBodyMode)} className={iconBtnClass(isBodyMode)}><Rotate3d size={16} strokeWidth={2} /></button>
+                 <button onClick={() => setGizmoEnabled(!gizmoEnabled)} className={iconBtnClass(gizmoEnabled)}><Axis3d size={16} strokeWidth={2} /></button>
+                 <button onClick={() => { setGalleryPurpose('apply'); setIsGalleryMode(true); }} className={iconBtnClass(false)}><ImageIcon size={16} strokeWidth={2} /></button>
+                 <button onClick={() => { if (isTimelineOpen) stopPlayback(); setIsTimelineOpen(!isTimelineOpen); }} className={iconBtnClass(isTimelineOpen)}><Film size={16} strokeWidth={2} /></button>
                  <div className="w-px h-5 bg-current opacity-20 mx-0.5"></div>
                  <button onClick={() => { setIsCanvasMode(true); setStrokeCount(0); strokesRef.current = []; }} className={iconBtnClass(false)}><Pencil size={16} strokeWidth={2} /></button>
             </div>
@@ -0,0 +1,59 @@
+// Local stand-in for a vision backend, for trying Magic Pose without a model.
+// Answers every POST with canned limbs JSON: each limb fans out evenly around the center
+// with a slight bend, for the limb count and per-limb segment counts the app sends. Text prompts (which send
+// candidates) get that many poses back, each turned a little further.
+//
+//   npm run vision-stub            # listens on http://localhost:8787
+//   PORT=9000 npm run vision-stub
+import http from "node:http";
+
+const PORT = Number(process.env.PORT) || 8787;
+
+const cannedLimbs = (limbCount, segmentCounts, turn = 0) =>
+    Array.from({ length: limbCount }, (_, id) => {
+        const segmentCount = segmentCounts[id];
+        const angle = (id / limbCount) * Math.PI * 2 + turn;
+        const points = Array.from({ length: segmentCount }, (_, s) => {
+            const reach = 0.3 * ((s + 1) / segmentCount);
+            const bend = angle + 0.3 * Math.sin((Math.PI * (s + 1)) / segmentCount);
+            return [0.5 + Math.cos(bend) * reach, 0.5 - Math.sin(bend) * reach].map(v => Number(v.toFixed(3)));
+        });
+        return { id, points };
+    });
+
+const server = http.createServer((req, res) => {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+    res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+    if (req.method === "OPTIONS") {
+        res.writeHead(204).end();
+        return;
+    }
+    if (req.method !== "POST") {
+        res.writeHead(405).end();
+        return;
+    }
+    let body = "";
+    req.on("data", chunk => { body += chunk; });
+    req.on("end", () => {
+        let request = {};
+        try {
+            request = JSON.parse(body || "{}");
+        } catch (e) {
+            res.writeHead(400, { "Content-Type": "application/json" }).end(JSON.stringify({ error: "Body is not JSON" }));
+            return;
+        }
+        const limbCount = Number.isInteger(request.limbCount) ? request.limbCount : 8;
+        // Limbs the request gives no usable count for get two segments
+        const given = Array.isArray(request.segmentCounts) ? request.segmentCounts : [];
+        const segmentCounts = Array.from({ length: limbCount }, (_, id) => Number.isInteger(given[id]) && given[id] > 0 ? given[id] : 2);
+        const candidates = Number.isInteger(request.candidates) ? request.candidates : 0;
+        console.log(`${new Date().toLocaleTimeString()} ${limbCount} limbs, segments ${segmentCounts.join("/")}${candidates ? `, ${candidates} poses` : ""}`);
+        const answer = candidates
+            ? { poses: Array.from({ length: candidates }, (_, i) => ({ name: `Stub ${i + 1}`, limbs: cannedLimbs(limbCount, segmentCounts, i * 0.4) })) }
+            : { limbs: cannedLimbs(limbCount, segmentCounts) };
+        res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(answer));
+    });
+});
+
+server.listen(PORT, () => console.log(`Vision stub listening on http://localhost:${PORT}`));